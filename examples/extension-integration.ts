@@ -12,6 +12,7 @@ import * as path from 'path';
 // Import the API type definition
 interface SockpuppetAPI {
     getPipePath(): string;
+    getAuthToken(): string;
     isRunning(): boolean;
     getPythonConnectionCode(): string;
     getEnvironmentVariables(): { [key: string]: string };
@@ -18,6 +18,14 @@ export interface SockpuppetAPI {
      */
     getPipePath(): string;
 
+    /**
+     * Get the per-session token clients must present in their first 'auth' request.
+     * Treat it as a secret: anyone holding it can control this VS Code window.
+     * 
+     * @returns The hex-encoded authentication token
+     */
+    getAuthToken(): string;
+
     /**
      * Check if the Sockpuppet server is currently running.
      * 
@@ -35,7 +43,7 @@ export interface SockpuppetAPI {
 
     /**
      * Get environment variables that should be set when launching a Python process
-     * that will connect to Sockpuppet.
+     * that will connect to Sockpuppet, including the pipe path and authentication token.
      * 
      * @returns Object with environment variable key-value pairs
      */
@@ -47,7 +55,8 @@ export interface SockpuppetAPI {
      * 
      * @param method The method name (e.g., 'window.showInformationMessage')
      * @param params Parameters for the method
-     * @returns Promise that resolves with the result
+     * @returns Promise that resolves with the result, or rejects with an error
+     *          carrying the response's `code` (e.g. 'NotFound') and `data`
      */
     executeMethod(method: string, params?: any): Promise<any>;
 }
@@ -0,0 +1,62 @@
+import { InvalidParamsError } from './errors';
+
+export const BATCH_METHOD = 'batch';
+
+/**
+ * Outcome of one call of a batch: the native response without its id
+ */
+export interface BatchCallResult {
+    result?: any;
+    error?: string;
+    code?: string;
+    method?: string;
+    data?: any;
+}
+
+/**
+ * Replace references to the results of earlier calls in a batch call's params.
+ * A reference is an object whose only key is '$ref', holding the index of an
+ * earlier call optionally followed by a property path, e.g. { "$ref": "0.uri" }.
+ *
+ * @throws InvalidParamsError if a reference points at a call that has not run
+ *         or failed, or at a property its result does not have
+ */
+export function resolveBatchReferences(value: any, results: BatchCallResult[], field: string): any {
+    if (Array.isArray(value)) {
+        return value.map((item, index) => resolveBatchReferences(item, results, `${field}[${index}]`));
+    }
+    if (typeof value !== 'object' || value === null) {
+        return value;
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === '$ref' && typeof value.$ref === 'string') {
+        return lookupReference(value.$ref, results, field);
+    }
+
+    const resolved: { [key: string]: any } = {};
+    for (const key of keys) {
+        resolved[key] = resolveBatchReferences(value[key], results, `${field}.${key}`);
+    }
+    return resolved;
+}
+
+function lookupReference(ref: string, results: BatchCallResult[], field: string): any {
+    const [index, ...path] = ref.split('.');
+    const entry = /^\d+$/.test(index) ? results[Number(index)] : undefined;
+    if (!entry) {
+        throw new InvalidParamsError(`'${field}' references call ${index}, which has not run yet`, { field, ref });
+    }
+    if (entry.error !== undefined) {
+        throw new InvalidParamsError(`'${field}' references call ${index}, which failed`, { field, ref });
+    }
+
+    let value = entry.result;
+    for (const key of path) {
+        if (typeof value !== 'object' || value === null || !(key in value)) {
+            throw new InvalidParamsError(`'${field}' references '${ref}', which the result does not have`, { field, ref });
+        }
+        value = value[key];
+    }
+    return value;
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { InvalidParamsError } from './errors';
+
+/**
+ * How binary content is represented in JSON messages:
+ * - array: array of byte values, the original format (about 4 characters per byte)
+ * - base64: base64 string (about 1.33 characters per byte)
+ */
+export type ByteEncoding = 'array' | 'base64';
+
+export const BYTE_ENCODINGS: readonly ByteEncoding[] = ['array', 'base64'];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export function encodeBytes(data: Uint8Array, encoding: ByteEncoding): number[] | string {
+    if (encoding === 'base64') {
+        return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('base64');
+    }
+    return Array.from(data);
+}
+
+/**
+ * Decode content sent by a client, a base64 string or an array of byte values
+ *
+ * @param field Name of the parameter, used in error messages
+ */
+export function decodeBytes(content: number[] | string, field: string): Uint8Array {
+    if (typeof content === 'string') {
+        const base64 = content.replace(/\s/g, '');
+        if (base64.length % 4 !== 0 || !BASE64_PATTERN.test(base64)) {
+            throw new InvalidParamsError(`'${field}' is not valid base64`, { field });
+        }
+        return Buffer.from(base64, 'base64');
+    }
+    const invalid = content.findIndex(byte => !Number.isInteger(byte) || byte < 0 || byte > 255);
+    if (invalid !== -1) {
+        throw new InvalidParamsError(`'${field}[${invalid}]' must be a byte value (0-255)`, { field: `${field}[${invalid}]` });
+    }
+    return Uint8Array.from(content);
+}
+
+/**
+ * Read up to length bytes starting at offset. Local files are read in place,
+ * other file systems have no ranged reads so the whole file is read and sliced.
+ */
+export async function readFileRange(
+    uri: vscode.Uri,
+    offset: number,
+    length: number
+): Promise<{ data: Uint8Array; size: number }> {
+    if (uri.scheme === 'file') {
+        const handle = await fs.promises.open(uri.fsPath, 'r');
+        try {
+            const { size } = await handle.stat();
+            const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+            return { data: buffer.subarray(0, bytesRead), size };
+        } finally {
+            await handle.close();
+        }
+    }
+
+    const content = await vscode.workspace.fs.readFile(uri);
+    return { data: content.subarray(offset, offset + length), size: content.length };
+}
+
+/**
+ * Write data at offset, creating the file if needed and optionally truncating it after the data
+ *
+ * @returns The size of the file afterwards
+ */
+export async function writeFileRange(
+    uri: vscode.Uri,
+    data: Uint8Array,
+    offset: number,
+    truncate: boolean
+): Promise<number> {
+    if (uri.scheme === 'file') {
+        const handle = await fs.promises.open(uri.fsPath, fs.constants.O_RDWR | fs.constants.O_CREAT);
+        try {
+            await handle.write(data, 0, data.length, offset);
+            if (truncate) {
+                await handle.truncate(offset + data.length);
+            }
+            return (await handle.stat()).size;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    // Other file systems are rewritten as a whole
+    let existing: Uint8Array = new Uint8Array(0);
+    try {
+        existing = await vscode.workspace.fs.readFile(uri);
+    } catch (error) {
+        if (!(error instanceof vscode.FileSystemError) || error.code !== 'FileNotFound') {
+            throw error;
+        }
+    }
+    const size = truncate ? offset + data.length : Math.max(existing.length, offset + data.length);
+    const content = new Uint8Array(size);
+    content.set(existing.subarray(0, Math.min(existing.length, size)));
+    content.set(data, offset);
+    await vscode.workspace.fs.writeFile(uri, content);
+    return size;
+}
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+/**
+ * A configuration section a client watches, optionally for a resource and/or language
+ */
+export interface ConfigurationSection {
+    /** Dotted key such as 'editor.fontSize' */
+    section: string;
+    /** URI of the resource (document or workspace folder) the value applies to */
+    scope?: string;
+    languageId?: string;
+}
+
+/**
+ * A watched section affected by a configuration change, with its new effective value
+ */
+export interface ConfigurationChange extends ConfigurationSection {
+    value: any;
+}
+
+/**
+ * A section as sent by a client, a section name or an object with an optional scope
+ */
+export function toConfigurationSection(value: string | ConfigurationSection): ConfigurationSection {
+    if (typeof value === 'string') {
+        return { section: value };
+    }
+    const section: ConfigurationSection = { section: value.section };
+    if (value.scope) {
+        section.scope = value.scope;
+    }
+    if (value.languageId) {
+        section.languageId = value.languageId;
+    }
+    return section;
+}
+
+/**
+ * Identity of a watched section, to register each section and scope once
+ */
+export function configurationSectionKey({ section, scope, languageId }: ConfigurationSection): string {
+    return JSON.stringify([section, scope ?? null, languageId ?? null]);
+}
+
+/**
+ * The sections a configuration change affects, each with its new effective value
+ */
+export function configurationChanges(
+    event: vscode.ConfigurationChangeEvent,
+    sections: Iterable<ConfigurationSection>
+): ConfigurationChange[] {
+    const changes: ConfigurationChange[] = [];
+    for (const watched of sections) {
+        const scope = toConfigurationScope(watched);
+        if (event.affectsConfiguration(watched.section, scope)) {
+            const value = vscode.workspace.getConfiguration(undefined, scope).get(watched.section);
+            changes.push({ ...watched, value: value ?? null });
+        }
+    }
+    return changes;
+}
+
+function toConfigurationScope({ scope, languageId }: ConfigurationSection): vscode.ConfigurationScope | undefined {
+    const uri = scope ? vscode.Uri.parse(scope) : undefined;
+    if (languageId === undefined) {
+        return uri;
+    }
+    return { uri, languageId };
+}
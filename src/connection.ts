@@ -0,0 +1,474 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { toJsonRpcNotification, toJsonRpcResponse } from './jsonrpc';
+import { ClientPermissions } from './permissions';
+import { StampedEvent, SubscriptionSet } from './subscriptions';
+import { ConfigurationSection } from './configuration';
+import { TrackedDocuments } from './tracking';
+
+/**
+ * Message format spoken by a client, decided by its first message:
+ * - native: { id, method, params } requests and { type: 'event' } pushes
+ * - jsonrpc: JSON-RPC 2.0 requests, responses, notifications and batches
+ */
+export type WireProtocol = 'native' | 'jsonrpc';
+
+/**
+ * How messages are delimited on the socket, decided by the first bytes a client sends:
+ * newline-delimited JSON, or LSP-style 'Content-Length' headers
+ */
+export type Framing = 'newline' | 'content-length';
+
+const CONTENT_LENGTH_HEADER = 'content-length:';
+
+/**
+ * What happens when a client reads events slower than they are produced and its queue is full:
+ * - dropOldest: discard the oldest queued event
+ * - coalesce: replace an older queued event of the same name, else discard the oldest
+ * - disconnect: close the connection
+ */
+export type OverflowPolicy = 'dropOldest' | 'coalesce' | 'disconnect';
+
+export interface EventQueueOptions {
+    /** Maximum number of events queued while the socket is backed up (0 = unlimited) */
+    limit: number;
+    overflowPolicy: OverflowPolicy;
+}
+
+/**
+ * Events lost to the overflow policy, sent to the client as an 'events.overflow' event
+ */
+export interface OverflowReport {
+    policy: OverflowPolicy;
+    dropped: number;
+    coalesced: number;
+    /** Number of lost events per event name */
+    events: { [event: string]: number };
+}
+
+export const OVERFLOW_EVENT = 'events.overflow';
+
+/** Time a client disconnected for overflowing gets to read the overflow notice */
+const DISCONNECT_GRACE_MS = 5000;
+
+interface QueuedMessage {
+    text: string;
+    /** Event name, undefined for responses (which are never dropped) */
+    event?: string;
+}
+
+/**
+ * Per-request information made available to method handlers
+ */
+export interface RequestContext {
+    /** The connection the request arrived on, undefined for in-process calls */
+    client?: ClientConnection;
+    /** Cancelled when the client cancels the request or disconnects */
+    token?: vscode.CancellationToken;
+}
+
+/**
+ * Runs requests for a single client with an optional concurrency cap.
+ * Requests flagged as sequential are additionally chained so they start
+ * in the order they arrived, one after the other.
+ */
+class RequestScheduler {
+    private active = 0;
+    private waiting: Array<() => void> = [];
+    private sequentialTail: Promise<void> = Promise.resolve();
+
+    /**
+     * @param maxConcurrent Maximum number of requests running at once (0 = unlimited)
+     */
+    constructor(private readonly maxConcurrent: number) {}
+
+    schedule<T>(task: () => Promise<T>, sequential: boolean): Promise<T> {
+        const run = async (): Promise<T> => {
+            await this.acquire();
+            try {
+                return await task();
+            } finally {
+                this.release();
+            }
+        };
+
+        if (!sequential) {
+            return run();
+        }
+
+        // Sequential requests wait for the previous one to settle (success or failure)
+        const result = this.sequentialTail.then(run);
+        this.sequentialTail = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    private acquire(): Promise<void> {
+        if (this.maxConcurrent <= 0 || this.active < this.maxConcurrent) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            // Hand the slot straight to the next waiting request
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
+
+/**
+ * Writes framed messages to a socket, holding them back while the socket is
+ * backed up until it drains. Queued events are bounded by the overflow policy.
+ */
+class OutboundQueue {
+    private queue: QueuedMessage[] = [];
+    private queuedEvents = 0;
+    private waitingForDrain = false;
+    private report: OverflowReport | undefined;
+
+    constructor(
+        private readonly socket: net.Socket,
+        private readonly options: EventQueueOptions,
+        private readonly encodeOverflow: (report: OverflowReport) => string,
+        private readonly onReported: (report: OverflowReport) => void
+    ) {}
+
+    write(text: string, event?: string): void {
+        if (this.socket.destroyed || !this.socket.writable) {
+            return;
+        }
+        if (!this.waitingForDrain) {
+            this.writeNow(text);
+            return;
+        }
+        if (event !== undefined && !this.makeRoom(event)) {
+            return;
+        }
+        this.queue.push({ text, event });
+        if (event !== undefined) {
+            this.queuedEvents++;
+        }
+    }
+
+    private writeNow(text: string): void {
+        if (!this.socket.write(text)) {
+            this.waitingForDrain = true;
+            this.socket.once('drain', () => this.flush());
+        }
+    }
+
+    private flush(): void {
+        this.waitingForDrain = false;
+        while (this.queue.length > 0 && !this.waitingForDrain) {
+            if (this.socket.destroyed || !this.socket.writable) {
+                this.clear();
+                return;
+            }
+            const message = this.queue.shift()!;
+            if (message.event !== undefined) {
+                this.queuedEvents--;
+            }
+            this.writeNow(message.text);
+        }
+
+        // Tell the client what it missed once it has caught up
+        if (!this.waitingForDrain && this.report) {
+            const report = this.takeReport();
+            this.writeNow(this.encodeOverflow(report));
+            this.onReported(report);
+        }
+    }
+
+    /**
+     * Apply the overflow policy before queueing an event
+     *
+     * @returns False if the event must not be queued
+     */
+    private makeRoom(event: string): boolean {
+        const { limit, overflowPolicy } = this.options;
+        if (limit <= 0 || this.queuedEvents < limit) {
+            return true;
+        }
+
+        if (overflowPolicy === 'disconnect') {
+            this.record(event, 'dropped');
+            this.disconnect();
+            return false;
+        }
+
+        if (overflowPolicy === 'coalesce') {
+            const previous = this.queue.findIndex(message => message.event === event);
+            if (previous !== -1) {
+                this.remove(previous);
+                this.record(event, 'coalesced');
+                return true;
+            }
+        }
+
+        const oldest = this.queue.findIndex(message => message.event !== undefined);
+        this.record(this.queue[oldest].event!, 'dropped');
+        this.remove(oldest);
+        return true;
+    }
+
+    private disconnect(): void {
+        const notice = this.encodeOverflow(this.takeReport());
+        this.clear();
+        // end() sends the notice after the data already buffered, give the client a moment to read it
+        this.socket.end(notice);
+        setTimeout(() => this.socket.destroy(), DISCONNECT_GRACE_MS).unref();
+    }
+
+    private remove(index: number): void {
+        this.queue.splice(index, 1);
+        this.queuedEvents--;
+    }
+
+    private clear(): void {
+        this.queue = [];
+        this.queuedEvents = 0;
+    }
+
+    private record(event: string, outcome: 'dropped' | 'coalesced'): void {
+        if (!this.report) {
+            this.report = { policy: this.options.overflowPolicy, dropped: 0, coalesced: 0, events: {} };
+        }
+        this.report[outcome]++;
+        this.report.events[event] = (this.report.events[event] ?? 0) + 1;
+    }
+
+    private takeReport(): OverflowReport {
+        const report = this.report!;
+        this.report = undefined;
+        return report;
+    }
+}
+
+/**
+ * State for a single connected client: framing of incoming data,
+ * request scheduling, cancellation of in-flight requests and event subscriptions.
+ */
+export class ClientConnection {
+    /** Whether the client has completed the auth handshake */
+    authenticated = false;
+    /** Set when the client failed the auth handshake, the connection is closed after the reply */
+    rejected = false;
+    /** Message format, undefined until the first message arrives */
+    protocol: WireProtocol | undefined;
+    /** Message delimiting, undefined until the first bytes arrive */
+    framing: Framing | undefined;
+    /** Name shown to the user in permission prompts, sent by the client in its 'auth' request */
+    clientName = 'A Python client';
+    readonly permissions: ClientPermissions = new ClientPermissions();
+    /** Protocol version agreed in the 'initialize' exchange, undefined until then */
+    protocolVersion: number | undefined;
+    /** Optional features enabled for this client in the 'initialize' exchange */
+    capabilities: Set<string> = new Set();
+    readonly subscriptions: SubscriptionSet = new SubscriptionSet(
+        (stamped, subscriptionId) => this.sendEvent(stamped.event, stamped.data, subscriptionId, stamped)
+    );
+    /** Configuration sections reported in workspace.onDidChangeConfiguration events, by configurationSectionKey */
+    readonly configurationSections: Map<string, ConfigurationSection> = new Map();
+    /** Documents mirrored by the client through document.track */
+    readonly trackedDocuments: TrackedDocuments = new TrackedDocuments();
+    /** Called after the client caught up on events and was told which ones it lost */
+    onOverflow: ((report: OverflowReport) => void) | undefined;
+    private inFlight: Map<unknown, vscode.CancellationTokenSource> = new Map();
+    private buffer: Buffer = Buffer.alloc(0);
+    private readonly scheduler: RequestScheduler;
+    private readonly outbound: OutboundQueue;
+
+    constructor(
+        public readonly socket: net.Socket,
+        public readonly maxConcurrentRequests: number = 0,
+        public readonly eventQueue: EventQueueOptions = { limit: 0, overflowPolicy: 'dropOldest' }
+    ) {
+        this.scheduler = new RequestScheduler(maxConcurrentRequests);
+        this.outbound = new OutboundQueue(
+            socket,
+            eventQueue,
+            report => this.frame(this.eventMessage(OVERFLOW_EVENT, report)),
+            report => this.onOverflow?.(report)
+        );
+    }
+
+    /**
+     * Append incoming data and return any complete messages
+     */
+    receive(data: Buffer): string[] {
+        this.buffer = Buffer.concat([this.buffer, data]);
+        if (this.framing === undefined) {
+            this.framing = detectFraming(this.buffer);
+            if (this.framing === undefined) {
+                return [];
+            }
+        }
+        return this.framing === 'content-length' ? this.readContentLengthMessages() : this.readLines();
+    }
+
+    private readLines(): string[] {
+        // Split the raw bytes so multi-byte characters spanning two chunks stay intact
+        const lines: string[] = [];
+        let newline: number;
+        while ((newline = this.buffer.indexOf(0x0a)) !== -1) {
+            lines.push(this.buffer.subarray(0, newline).toString('utf8'));
+            this.buffer = this.buffer.subarray(newline + 1);
+        }
+        return lines.filter(line => line.trim());
+    }
+
+    private readContentLengthMessages(): string[] {
+        const messages: string[] = [];
+        for (;;) {
+            const headerEnd = this.buffer.indexOf('\r\n\r\n');
+            if (headerEnd === -1) {
+                break;
+            }
+            const headers = this.buffer.subarray(0, headerEnd).toString('ascii');
+            const bodyStart = headerEnd + 4;
+            const match = /^content-length:\s*(\d+)\s*$/im.exec(headers);
+            if (!match) {
+                // Without a length the body cannot be found, skip the header block
+                this.buffer = this.buffer.subarray(bodyStart);
+                continue;
+            }
+            const bodyEnd = bodyStart + parseInt(match[1], 10);
+            if (this.buffer.length < bodyEnd) {
+                break;
+            }
+            messages.push(this.buffer.subarray(bodyStart, bodyEnd).toString('utf8'));
+            this.buffer = this.buffer.subarray(bodyEnd);
+        }
+        return messages;
+    }
+
+    /**
+     * Run a request through this client's scheduler
+     */
+    schedule<T>(task: () => Promise<T>, sequential: boolean = false): Promise<T> {
+        return this.scheduler.schedule(task, sequential);
+    }
+
+    /**
+     * Create the cancellation token for a request that is about to be dispatched.
+     * Requests without an id cannot be cancelled but still receive a token.
+     */
+    beginRequest(id: unknown): vscode.CancellationToken {
+        const tokenSource = new vscode.CancellationTokenSource();
+        if (id !== undefined && id !== null) {
+            this.inFlight.set(id, tokenSource);
+        }
+        return tokenSource.token;
+    }
+
+    /**
+     * Release the cancellation token of a finished request
+     */
+    endRequest(id: unknown, token: vscode.CancellationToken): void {
+        const tokenSource = this.inFlight.get(id);
+        // A later request may have reused the id, only release our own token
+        if (tokenSource && tokenSource.token === token) {
+            tokenSource.dispose();
+            this.inFlight.delete(id);
+        }
+    }
+
+    /**
+     * Cancel an in-flight request
+     *
+     * @returns True if a matching request was still running
+     */
+    cancelRequest(id: unknown): boolean {
+        const tokenSource = this.inFlight.get(id);
+        if (!tokenSource) {
+            return false;
+        }
+        tokenSource.cancel();
+        return true;
+    }
+
+    /**
+     * Cancel every in-flight request, e.g. when the client disconnects
+     */
+    cancelAll(): void {
+        this.inFlight.forEach(tokenSource => tokenSource.cancel());
+    }
+
+    /**
+     * Convert a native response ({ id, result } or { id, error, code, method, data })
+     * to the client's protocol
+     *
+     * @param errorCode JSON-RPC error code overriding the one derived from the error code
+     */
+    formatResponse(response: any, errorCode?: number): any {
+        return this.protocol === 'jsonrpc' ? toJsonRpcResponse(response, errorCode) : response;
+    }
+
+    /**
+     * Push an event to the client, as a JSON-RPC notification in JSON-RPC mode.
+     * Events are subject to the event queue limit while the client is not reading.
+     *
+     * @param subscriptionId Subscription the event is delivered for, included in native messages
+     * @param stamp Sequence number, server instance and time of a broadcast event, included in native messages
+     */
+    sendEvent(
+        event: string,
+        data: any,
+        subscriptionId?: string,
+        stamp?: Pick<StampedEvent, 'sequence' | 'instanceId' | 'timestamp'>
+    ): void {
+        this.outbound.write(this.frame(this.eventMessage(event, data, subscriptionId, stamp)), event);
+    }
+
+    /**
+     * Serialize, frame and write a message to the client, ignoring closed sockets
+     */
+    send(message: any): void {
+        this.outbound.write(this.frame(message));
+    }
+
+    private eventMessage(
+        event: string,
+        data: any,
+        subscriptionId?: string,
+        stamp?: Pick<StampedEvent, 'sequence' | 'instanceId' | 'timestamp'>
+    ): any {
+        if (this.protocol === 'jsonrpc') {
+            return toJsonRpcNotification(event, data);
+        }
+        const message: any = { type: 'event', event, data };
+        if (subscriptionId) {
+            message.subscriptionId = subscriptionId;
+        }
+        if (stamp) {
+            message.sequence = stamp.sequence;
+            message.instanceId = stamp.instanceId;
+            message.timestamp = stamp.timestamp;
+        }
+        return message;
+    }
+
+    private frame(message: any): string {
+        const body = JSON.stringify(message);
+        if (this.framing === 'content-length') {
+            return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+        }
+        return body + '\n';
+    }
+}
+
+/**
+ * Framing used by a client, undefined while too few bytes have arrived to tell
+ */
+function detectFraming(buffer: Buffer): Framing | undefined {
+    const start = buffer.subarray(0, CONTENT_LENGTH_HEADER.length).toString('ascii').toLowerCase();
+    if (start.length < CONTENT_LENGTH_HEADER.length && CONTENT_LENGTH_HEADER.startsWith(start)) {
+        return undefined;
+    }
+    return start === CONTENT_LENGTH_HEADER ? 'content-length' : 'newline';
+}
@@ -0,0 +1,108 @@
+/**
+ * Stable, machine-readable error codes sent to clients alongside the human-readable message
+ * - NotFound: a method, document or client-created resource (webview, terminal, ...) does not exist
+ * - NoActiveEditor: the method needs an active text editor and there is none
+ * - InvalidParams: a parameter is missing, has the wrong type or an unsupported value
+ * - Cancelled: the client cancelled the request or disconnected
+ * - PermissionDenied: the client is not authenticated or not allowed to call the method
+ * - VersionConflict: an edit expected a document version the document is no longer at
+ * - Internal: any other failure, usually an error raised by VS Code itself
+ */
+export type ErrorCode =
+    | 'NotFound'
+    | 'NoActiveEditor'
+    | 'InvalidParams'
+    | 'Cancelled'
+    | 'PermissionDenied'
+    | 'VersionConflict'
+    | 'Internal';
+
+/**
+ * Structured data attached to an error, e.g. the id of a missing resource
+ */
+export type ErrorData = { [key: string]: unknown };
+
+/**
+ * Base class for errors reported to clients with a specific error code
+ */
+export class SockpuppetError extends Error {
+    constructor(
+        public readonly code: ErrorCode,
+        message: string,
+        public readonly data?: ErrorData
+    ) {
+        super(message);
+        this.name = 'SockpuppetError';
+    }
+}
+
+/**
+ * Raised when a request is cancelled by the client before it completes
+ */
+export class CancelledError extends SockpuppetError {
+    constructor(message: string = 'Request cancelled') {
+        super('Cancelled', message);
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Raised when a client calls a method above the permission tier it has been granted
+ */
+export class PermissionDeniedError extends SockpuppetError {
+    constructor(public readonly method: string, public readonly tier: string) {
+        super('PermissionDenied', `Permission denied: ${method} requires '${tier}' access`, { tier });
+        this.name = 'PermissionDeniedError';
+    }
+}
+
+/**
+ * Raised when a method, document or resource referenced by a request does not exist
+ */
+export class NotFoundError extends SockpuppetError {
+    constructor(message: string, data?: ErrorData) {
+        super('NotFound', message, data);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * Raised by editor methods when no text editor is active
+ */
+export class NoActiveEditorError extends SockpuppetError {
+    constructor(message: string = 'No active text editor') {
+        super('NoActiveEditor', message);
+        this.name = 'NoActiveEditorError';
+    }
+}
+
+/**
+ * Raised when a request's parameters are missing or malformed
+ */
+export class InvalidParamsError extends SockpuppetError {
+    constructor(message: string, data?: ErrorData) {
+        super('InvalidParams', message, data);
+        this.name = 'InvalidParamsError';
+    }
+}
+
+/**
+ * Raised when an edit was computed against a document version that has since changed
+ */
+export class VersionConflictError extends SockpuppetError {
+    constructor(uri: string, expectedVersion: number, actualVersion: number) {
+        super(
+            'VersionConflict',
+            `Version conflict: ${uri} is at version ${actualVersion}, the edit expected version ${expectedVersion}`,
+            { uri, expectedVersion, actualVersion }
+        );
+        this.name = 'VersionConflictError';
+    }
+}
+
+/**
+ * Error code for any thrown value, falling back to 'Internal' for errors not raised by the server
+ */
+export function errorCodeOf(error: unknown): ErrorCode {
+    return error instanceof SockpuppetError ? error.code : 'Internal';
+}
@@ -0,0 +1,318 @@
+import * as crypto from 'crypto';
+import { EventFilter, EventSubject, StampedEvent } from './subscriptions';
+import { OVERFLOW_EVENT } from './connection';
+import { DOCUMENT_DELTA_EVENT, DOCUMENT_RESYNC_EVENT, DOCUMENT_UNTRACKED_EVENT } from './tracking';
+
+/**
+ * An event the server emits. Names may contain a placeholder segment such as
+ * '<watcherId>', standing for the id of the resource the event belongs to.
+ */
+export interface EventDescription {
+    name: string;
+    description: string;
+    /** Payload fields and what they hold, null payloads are noted in the description */
+    payload: { [field: string]: string };
+    /** Subscription filter fields the event can be matched against */
+    filterBy: (keyof EventFilter)[];
+}
+
+const DOCUMENT_FILTERS: (keyof EventFilter)[] = ['uri', 'languageId', 'scheme'];
+const FILE_FILTERS: (keyof EventFilter)[] = ['uri', 'scheme'];
+const WATCHER_FILTERS: (keyof EventFilter)[] = ['uri', 'scheme', 'id'];
+
+/**
+ * Every event emitted by the server, in the order they are documented
+ */
+export const EVENT_CATALOG: readonly EventDescription[] = [
+    {
+        name: 'workspace.onDidOpenTextDocument',
+        description: 'A text document was opened',
+        payload: { uri: 'Document URI', languageId: 'Language id', fileName: 'File system path' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'workspace.onDidCloseTextDocument',
+        description: 'A text document was closed',
+        payload: { uri: 'Document URI', fileName: 'File system path' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'workspace.onDidSaveTextDocument',
+        description: 'A text document was saved',
+        payload: { uri: 'Document URI', fileName: 'File system path' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'workspace.onDidChangeTextDocument',
+        description: 'The text or the dirty state of a document changed',
+        payload: {
+            uri: 'Document URI',
+            version: 'Document version after the change',
+            isDirty: 'Whether the document has unsaved changes',
+            reason: "'undo', 'redo', or null for any other edit",
+            contentChanges: 'Array of { range, rangeOffset, rangeLength, text }, to be applied in order; '
+                + 'empty when only the dirty state changed'
+        },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'workspace.onDidChangeWorkspaceFolders',
+        description: 'Workspace folders were added or removed',
+        payload: { added: 'Array of { uri, name }', removed: 'Array of { uri, name }' },
+        filterBy: FILE_FILTERS
+    },
+    {
+        name: 'workspace.onDidChangeConfiguration',
+        description: 'The configuration changed. Clients watching sections with workspace.watchConfiguration '
+            + 'only get the event when one of them changed.',
+        payload: {
+            sections: 'Array of { section, scope?, languageId?, value } with the new effective value of each watched '
+                + 'section that changed, empty for clients watching none'
+        },
+        filterBy: []
+    },
+    {
+        name: 'workspace.onDidCreateFiles',
+        description: 'Files were created through the workspace API or the explorer',
+        payload: { files: 'Array of { uri }' },
+        filterBy: FILE_FILTERS
+    },
+    {
+        name: 'workspace.onDidDeleteFiles',
+        description: 'Files were deleted through the workspace API or the explorer',
+        payload: { files: 'Array of { uri }' },
+        filterBy: FILE_FILTERS
+    },
+    {
+        name: 'workspace.onDidRenameFiles',
+        description: 'Files were renamed or moved through the workspace API or the explorer',
+        payload: { files: 'Array of { oldUri, newUri }' },
+        filterBy: FILE_FILTERS
+    },
+    {
+        name: 'window.onDidChangeActiveTextEditor',
+        description: 'The active text editor changed, the payload is null when no editor is active',
+        payload: { uri: 'Document URI', languageId: 'Language id', fileName: 'File system path' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'window.onDidChangeTextEditorSelection',
+        description: 'The selections of a text editor changed',
+        payload: { uri: 'Document URI', selections: 'Array of { start, end, active, anchor }' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'window.onDidChangeVisibleTextEditors',
+        description: 'The set of visible text editors changed',
+        payload: { count: 'Number of visible editors', editors: 'Array of { uri, languageId }' },
+        filterBy: FILE_FILTERS
+    },
+    {
+        name: 'window.onDidChangeTextEditorVisibleRanges',
+        description: 'A text editor was scrolled or resized',
+        payload: { uri: 'Document URI', visibleRanges: 'Array of { start, end }' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'window.onDidChangeTextEditorOptions',
+        description: 'The options of a text editor changed',
+        payload: { uri: 'Document URI', options: '{ tabSize, insertSpaces, cursorStyle, lineNumbers }' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'window.onDidChangeTextEditorViewColumn',
+        description: 'A text editor moved to another view column',
+        payload: { uri: 'Document URI', viewColumn: 'New view column' },
+        filterBy: DOCUMENT_FILTERS
+    },
+    {
+        name: 'window.onDidOpenTerminal',
+        description: 'A terminal was opened',
+        payload: { name: 'Terminal name' },
+        filterBy: []
+    },
+    {
+        name: 'window.onDidCloseTerminal',
+        description: 'A terminal was closed',
+        payload: { name: 'Terminal name' },
+        filterBy: []
+    },
+    {
+        name: 'window.onDidChangeTerminalState',
+        description: 'The state of a terminal changed',
+        payload: { name: 'Terminal name', isInteractedWith: 'Whether the user has interacted with the terminal' },
+        filterBy: []
+    },
+    {
+        name: 'window.onDidChangeWindowState',
+        description: 'The VS Code window gained or lost focus',
+        payload: { focused: 'Whether the window is focused' },
+        filterBy: []
+    },
+    {
+        name: 'window.onDidChangeTabGroups',
+        description: 'Tab groups were opened, closed or changed',
+        payload: { opened: 'Number of opened groups', closed: 'Number of closed groups', changed: 'Number of changed groups' },
+        filterBy: []
+    },
+    {
+        name: 'window.onDidChangeTabs',
+        description: 'Tabs were opened, closed or changed',
+        payload: { opened: 'Number of opened tabs', closed: 'Number of closed tabs', changed: 'Number of changed tabs' },
+        filterBy: []
+    },
+    {
+        name: 'watcher.<watcherId>.onCreate',
+        description: 'A file matching a watcher created with fs.createFileSystemWatcher was created',
+        payload: { uri: 'File URI' },
+        filterBy: WATCHER_FILTERS
+    },
+    {
+        name: 'watcher.<watcherId>.onChange',
+        description: 'A file matching a watcher created with fs.createFileSystemWatcher changed',
+        payload: { uri: 'File URI' },
+        filterBy: WATCHER_FILTERS
+    },
+    {
+        name: 'watcher.<watcherId>.onDelete',
+        description: 'A file matching a watcher created with fs.createFileSystemWatcher was deleted',
+        payload: { uri: 'File URI' },
+        filterBy: WATCHER_FILTERS
+    },
+    {
+        name: 'webview.onDidReceiveMessage',
+        description: 'A webview panel posted a message',
+        payload: { id: 'Webview panel id', message: 'The posted message' },
+        filterBy: ['id']
+    },
+    {
+        name: 'webview.onDidChangeViewState',
+        description: 'A webview panel became visible, hidden, active or inactive',
+        payload: { id: 'Webview panel id', visible: 'Whether the panel is visible', active: 'Whether the panel is active' },
+        filterBy: ['id']
+    },
+    {
+        name: 'webview.onDidDispose',
+        description: 'A webview panel was closed',
+        payload: { id: 'Webview panel id' },
+        filterBy: ['id']
+    },
+    {
+        name: DOCUMENT_DELTA_EVENT,
+        description: 'A document mirrored with document.track changed, sent without a subscription',
+        payload: {
+            uri: 'Document URI',
+            fromVersion: 'Version the changes apply to',
+            version: 'Version after the changes',
+            changes: 'Array of { range, rangeOffset, rangeLength, text }, to be applied in order'
+        },
+        filterBy: []
+    },
+    {
+        name: DOCUMENT_RESYNC_EVENT,
+        description: 'Deltas of a mirrored document were lost, replace the mirror with this snapshot',
+        payload: { uri: 'Document URI', version: 'Document version', languageId: 'Language id', eol: 'Line ending', text: 'Full text' },
+        filterBy: []
+    },
+    {
+        name: DOCUMENT_UNTRACKED_EVENT,
+        description: 'A mirrored document was closed and is no longer tracked',
+        payload: { uri: 'Document URI', reason: "'closed'" },
+        filterBy: []
+    },
+    {
+        name: OVERFLOW_EVENT,
+        description: 'Events were lost because the client did not keep up, sent without a subscription',
+        payload: {
+            policy: 'Overflow policy that applied',
+            dropped: 'Number of discarded events',
+            coalesced: 'Number of events replaced by a newer one',
+            events: 'Number of lost events per event name'
+        },
+        filterBy: []
+    }
+];
+
+/**
+ * Sequence numbers a client did not receive and that are no longer buffered.
+ * A gap from 0 includes the events of an earlier server instance.
+ */
+export interface EventGap {
+    from: number;
+    to: number;
+}
+
+/**
+ * The most recent broadcast events in a fixed-size ring buffer, so clients
+ * that reconnect can catch up on what they missed
+ */
+export class EventLog {
+    /**
+     * Number of events kept, 0 keeps none
+     */
+    readonly capacity: number;
+    /**
+     * Identifies this log's numbering, which starts over whenever the server does
+     */
+    readonly instanceId = crypto.randomBytes(8).toString('hex');
+    private readonly entries: (StampedEvent | undefined)[];
+    private lastSequence = 0;
+
+    /**
+     * @param capacity Number of events kept, rounded down to a whole number, 0 or less keeps none
+     */
+    constructor(capacity: number) {
+        this.capacity = Math.max(0, Math.floor(capacity));
+        this.entries = new Array(this.capacity);
+    }
+
+    /**
+     * Sequence number of the latest event, 0 before the first
+     */
+    get sequence(): number {
+        return this.lastSequence;
+    }
+
+    /**
+     * Number and record an event
+     */
+    record(event: string, data: any, subject?: EventSubject): StampedEvent {
+        const stamped: StampedEvent = {
+            sequence: ++this.lastSequence,
+            instanceId: this.instanceId,
+            timestamp: Date.now(),
+            event,
+            data,
+            subject
+        };
+        if (this.capacity > 0) {
+            this.entries[stamped.sequence % this.capacity] = stamped;
+        }
+        return stamped;
+    }
+
+    /**
+     * Buffered events after a sequence number, oldest first. A sequence number
+     * of another instance, or without an instance id one beyond the latest,
+     * comes from before the server restarted: every buffered event is returned
+     * and the gap starts at 0.
+     *
+     * @param instanceId Instance the sequence number comes from
+     * @returns The events and, if some of them are no longer buffered, the missing range
+     */
+    since(sequence: number, instanceId?: string): { events: StampedEvent[]; gap?: EventGap } {
+        const restarted = instanceId === undefined ? sequence > this.lastSequence : instanceId !== this.instanceId;
+        if (restarted) {
+            sequence = 0;
+        }
+        const oldest = Math.max(1, this.lastSequence - this.capacity + 1);
+        const events: StampedEvent[] = [];
+        for (let next = Math.max(sequence + 1, oldest); next <= this.lastSequence; next++) {
+            events.push(this.entries[next % this.capacity]!);
+        }
+        if (restarted) {
+            return { events, gap: { from: 0, to: oldest - 1 } };
+        }
+        return sequence + 1 < oldest ? { events, gap: { from: sequence + 1, to: oldest - 1 } } : { events };
+    }
+}
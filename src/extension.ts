@@ -23,7 +23,10 @@ export function activate(context: vscode.ExtensionContext): SockpuppetAPI {
 	// Set environment variable for terminals
 	const pipePath = server.getPipePath();
 	const envCollection = context.environmentVariableCollection;
+	// The token changes every session and must not be written to disk with the collection
+	envCollection.persistent = false;
 	envCollection.replace('VSCODE_SOCKPUPPET_PIPE', pipePath);
+	envCollection.replace('VSCODE_SOCKPUPPET_TOKEN', server.getAuthToken());
 	envCollection.description = 'VSCode Sockpuppet IPC configuration';
 
 	// Create status bar item to show pipe path
@@ -71,12 +74,20 @@ export function activate(context: vscode.ExtensionContext): SockpuppetAPI {
 			return server !== undefined && server.isRunning();
 		},
 
+		getAuthToken: () => {
+			if (!server) {
+				throw new Error('VSCode Sockpuppet server is not running');
+			}
+			return server.getAuthToken();
+		},
+
 		getPythonConnectionCode: () => {
 			const pipePath = server?.getPipePath() || '';
+			const authToken = server?.getAuthToken() || '';
 			return `from vscode_sockpuppet import VSCodeClient
 
 # Connect to VS Code
-with VSCodeClient(pipe_path='${pipePath}') as vscode:
+with VSCodeClient(pipe_path='${pipePath}', auth_token='${authToken}') as vscode:
     # Your code here
     vscode.window.show_information_message("Hello from Python!")
 `;
@@ -86,6 +97,7 @@ with VSCodeClient(pipe_path='${pipePath}') as vscode:
 			const pipePath = server?.getPipePath() || '';
 			return {
 				'VSCODE_SOCKPUPPET_PIPE': pipePath,
+				'VSCODE_SOCKPUPPET_TOKEN': server?.getAuthToken() || '',
 				'VSCODE_PID': process.pid.toString()
 			};
 		},
@@ -0,0 +1,73 @@
+import { InvalidParamsError } from './errors';
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths.
+ * Supports '*' and '?' within a path segment, '**' across segments,
+ * '{a,b}' alternatives and '[abc]' / '[!abc]' character classes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        switch (char) {
+            case '*':
+                if (pattern[i + 1] !== '*') {
+                    source += '[^/]*';
+                } else if (pattern[i + 2] === '/') {
+                    // '**/' matches any number of folders, including none
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i++;
+                }
+                break;
+            case '?':
+                source += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                source += '(?:';
+                break;
+            case '}':
+                source += inGroup ? ')' : '\\}';
+                inGroup = false;
+                break;
+            case ',':
+                source += inGroup ? '|' : ',';
+                break;
+            case '[': {
+                const end = pattern.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                    break;
+                }
+                const members = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+                source += members.startsWith('!') ? `[^${members.slice(1)}]` : `[${members}]`;
+                i = end;
+                break;
+            }
+            default:
+                source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * {@link globToRegExp} for a pattern sent by a client
+ *
+ * @param field Name of the parameter, used in error messages
+ * @throws InvalidParamsError if the pattern does not compile, e.g. an unclosed '{'
+ */
+export function compileGlob(pattern: string, field: string): RegExp {
+    try {
+        return globToRegExp(pattern);
+    } catch (error) {
+        throw new InvalidParamsError(
+            `'${field}' is not a valid glob pattern: ${error instanceof Error ? error.message : String(error)}`,
+            { field }
+        );
+    }
+}
@@ -0,0 +1,96 @@
+import { ErrorCode } from './errors';
+
+export const JSONRPC_VERSION = '2.0';
+
+/**
+ * JSON-RPC 2.0 error codes. The reserved range covers protocol errors, the
+ * server-defined range (-32000 to -32099) the server's own error codes and
+ * RequestCancelled follows the Language Server Protocol.
+ */
+export const JsonRpcErrorCodes = {
+    ParseError: -32700,
+    InvalidRequest: -32600,
+    MethodNotFound: -32601,
+    InvalidParams: -32602,
+    InternalError: -32603,
+    NotFound: -32001,
+    NoActiveEditor: -32002,
+    PermissionDenied: -32003,
+    VersionConflict: -32004,
+    RequestCancelled: -32800
+} as const;
+
+const ERROR_CODES: { [code in ErrorCode]: number } = {
+    NotFound: JsonRpcErrorCodes.NotFound,
+    NoActiveEditor: JsonRpcErrorCodes.NoActiveEditor,
+    InvalidParams: JsonRpcErrorCodes.InvalidParams,
+    Cancelled: JsonRpcErrorCodes.RequestCancelled,
+    PermissionDenied: JsonRpcErrorCodes.PermissionDenied,
+    VersionConflict: JsonRpcErrorCodes.VersionConflict,
+    Internal: JsonRpcErrorCodes.InternalError
+};
+
+/**
+ * Whether a message declares itself as JSON-RPC 2.0
+ */
+export function isJsonRpcMessage(message: any): boolean {
+    return typeof message === 'object' && message !== null && message.jsonrpc === JSONRPC_VERSION;
+}
+
+/**
+ * Problem with the envelope of a JSON-RPC request, undefined if it is well-formed
+ */
+export function invalidJsonRpcRequest(message: any): string | undefined {
+    if (!isJsonRpcMessage(message)) {
+        return `Invalid request: expected an object with jsonrpc "${JSONRPC_VERSION}"`;
+    }
+    if (typeof message.method !== 'string') {
+        return 'Invalid request: method must be a string';
+    }
+    if (message.id !== undefined && message.id !== null && typeof message.id !== 'string' && typeof message.id !== 'number') {
+        return 'Invalid request: id must be a string, a number or null';
+    }
+    if (message.params !== undefined && (typeof message.params !== 'object' || message.params === null)) {
+        return 'Invalid request: params must be an object or an array';
+    }
+    return undefined;
+}
+
+/**
+ * Convert a response in the native format ({ id, result } or { id, error, code, method, data })
+ * to a JSON-RPC 2.0 response. The native error code, method and data are kept in error.data.
+ *
+ * @param errorCode JSON-RPC error code overriding the one derived from the native code
+ */
+export function toJsonRpcResponse(response: any, errorCode?: number): any {
+    if (response.error === undefined) {
+        // A response must carry a result, undefined results become null
+        return { jsonrpc: JSONRPC_VERSION, id: response.id ?? null, result: response.result ?? null };
+    }
+
+    const data: any = { ...response.data, code: response.code };
+    if (response.method !== undefined) {
+        data.method = response.method;
+    }
+    return {
+        jsonrpc: JSONRPC_VERSION,
+        id: response.id ?? null,
+        error: {
+            code: errorCode ?? ERROR_CODES[response.code as ErrorCode] ?? JsonRpcErrorCodes.InternalError,
+            message: response.error,
+            data
+        }
+    };
+}
+
+/**
+ * JSON-RPC 2.0 notification for a server event. params may only be an object or an
+ * array, so events without a payload (e.g. no active editor) are sent without params.
+ */
+export function toJsonRpcNotification(event: string, data: any): any {
+    const notification: any = { jsonrpc: JSONRPC_VERSION, method: event };
+    if (data !== undefined && data !== null) {
+        notification.params = data;
+    }
+    return notification;
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { PermissionDeniedError } from './errors';
+
+/**
+ * Permission tiers, from least to most powerful. Granting a tier grants every tier below it.
+ * - read: inspect editor/workspace state and show UI (messages, webviews, status bar items)
+ * - edit: change documents, selections, editor state and create files
+ * - destructive: overwrite, delete or rename files and change settings
+ * - external: reach outside the editor (terminals, arbitrary commands, external URIs, language models)
+ */
+export type PermissionTier = 'read' | 'edit' | 'destructive' | 'external';
+
+export const PERMISSION_TIERS: readonly PermissionTier[] = ['read', 'edit', 'destructive', 'external'];
+
+const TIER_DESCRIPTIONS: { [tier in PermissionTier]: string } = {
+    read: 'read-only',
+    edit: 'editing',
+    destructive: 'destructive (overwrite/delete files, change settings)',
+    external: 'external (run commands and terminals, open URIs, use language models)'
+};
+
+function tierRank(tier: PermissionTier): number {
+    return PERMISSION_TIERS.indexOf(tier);
+}
+
+/**
+ * Permission decisions for a single client. Methods within the configured
+ * tier are always allowed; higher tiers are either rejected or, when
+ * prompting is enabled, offered to the user once per tier for the session.
+ */
+export class ClientPermissions {
+    private decisions: Map<PermissionTier, boolean> = new Map();
+    private pendingPrompts: Map<PermissionTier, Promise<boolean>> = new Map();
+
+    /**
+     * Resolve if the client may call a method of the given tier, otherwise reject with a PermissionDeniedError
+     */
+    async authorize(method: string, tier: PermissionTier, clientName: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration('vscode-sockpuppet.permissions');
+        const allowedTier = config.get<PermissionTier>('allowedTier', 'edit');
+
+        if (tierRank(tier) <= tierRank(allowedTier) || this.isGranted(tier)) {
+            return;
+        }
+
+        let allowed = this.decisions.get(tier);
+        if (allowed === undefined) {
+            if (!config.get<boolean>('prompt', true)) {
+                throw new PermissionDeniedError(method, tier);
+            }
+            allowed = await this.prompt(tier, method, clientName);
+        }
+
+        if (!allowed) {
+            throw new PermissionDeniedError(method, tier);
+        }
+    }
+
+    private isGranted(tier: PermissionTier): boolean {
+        // An explicit grant of a higher tier covers the lower ones too
+        return PERMISSION_TIERS
+            .slice(tierRank(tier))
+            .some(granted => this.decisions.get(granted) === true);
+    }
+
+    private prompt(tier: PermissionTier, method: string, clientName: string): Promise<boolean> {
+        // Concurrent requests for the same tier share a single prompt
+        let pending = this.pendingPrompts.get(tier);
+        if (!pending) {
+            pending = Promise.resolve(vscode.window.showWarningMessage(
+                `${clientName} is requesting ${TIER_DESCRIPTIONS[tier]} access (first call: ${method}). ` +
+                'Allow it for the rest of this session?',
+                { modal: true },
+                'Allow',
+                'Deny'
+            )).then(choice => {
+                const allowed = choice === 'Allow';
+                this.decisions.set(tier, allowed);
+                this.pendingPrompts.delete(tier);
+                return allowed;
+            });
+            this.pendingPrompts.set(tier, pending);
+        }
+        return pending;
+    }
+}
@@ -0,0 +1,321 @@
+import { RequestContext } from './connection';
+import { InvalidParamsError } from './errors';
+import { PermissionTier } from './permissions';
+
+/**
+ * Parameter types understood by method descriptions.
+ * - position: { line, character }
+ * - range: { start: position, end: position }
+ * - uri: a URI string such as 'file:///path/to/file.py'
+ */
+export type ParamType =
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'object'
+    | 'array'
+    | 'position'
+    | 'range'
+    | 'uri'
+    | 'any';
+
+/**
+ * Description of a single parameter (or nested property / array item)
+ */
+export interface ParamSchema {
+    /** Accepted type, or list of accepted types */
+    type: ParamType | ParamType[];
+    description?: string;
+    required?: boolean;
+    /** Allowed values */
+    enum?: readonly (string | number)[];
+    /** Compare string values against enum case-insensitively */
+    ignoreCase?: boolean;
+    /** Smallest allowed value of a number or integer */
+    minimum?: number;
+    /** Schema of array items */
+    items?: ParamSchema;
+    /** Schemas of known object properties */
+    properties?: { [name: string]: ParamSchema };
+}
+
+/**
+ * Declarative description of a method, returned by meta.describe
+ */
+export interface MethodDescriptor {
+    description: string;
+    params?: { [name: string]: ParamSchema };
+    /** Description of the result value */
+    result?: string;
+    /** Permission tier required to call the method (default 'read') */
+    tier?: PermissionTier;
+    /** Requests from one client run one at a time, in the order received */
+    sequential?: boolean;
+}
+
+export type MethodHandler = (params: any, context: RequestContext) => any;
+
+export interface RegisteredMethod extends MethodDescriptor {
+    name: string;
+    handler: MethodHandler;
+}
+
+/**
+ * Registry of every method the server can handle, keyed by full method name
+ * (e.g. 'window.showInformationMessage')
+ */
+export class MethodRegistry {
+    private methods: Map<string, RegisteredMethod> = new Map();
+
+    register(name: string, descriptor: MethodDescriptor, handler: MethodHandler): void {
+        if (this.methods.has(name)) {
+            throw new Error(`Method already registered: ${name}`);
+        }
+        this.methods.set(name, { ...descriptor, name, handler });
+    }
+
+    get(name: string): RegisteredMethod | undefined {
+        return this.methods.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.methods.has(name);
+    }
+
+    /**
+     * Names of all registered methods, optionally limited to a namespace such as 'window'
+     */
+    list(namespace?: string): string[] {
+        const names = Array.from(this.methods.keys());
+        const filtered = namespace ? names.filter(name => name.startsWith(`${namespace}.`)) : names;
+        return filtered.sort();
+    }
+
+    /**
+     * JSON-serializable description of a method, without its handler
+     */
+    describe(name: string): (MethodDescriptor & { name: string }) | undefined {
+        const method = this.methods.get(name);
+        if (!method) {
+            return undefined;
+        }
+        const { handler, ...descriptor } = method;
+        return {
+            ...descriptor,
+            tier: descriptor.tier ?? 'read',
+            sequential: descriptor.sequential ?? false
+        };
+    }
+
+    /**
+     * Registered method closest to a misspelled name, if any is close enough to be a likely typo
+     */
+    suggest(name: string): string | undefined {
+        const lowerName = name.toLowerCase();
+
+        // Abbreviated names (e.g. 'window.showInfoMessage') are a subsequence of the intended one
+        const expansions = Array.from(this.methods.keys())
+            .filter(candidate => candidate.length <= name.length * 2 && isSubsequence(lowerName, candidate.toLowerCase()))
+            .sort((a, b) => a.length - b.length);
+        if (expansions.length > 0) {
+            return expansions[0];
+        }
+
+        let best: string | undefined;
+        let bestDistance = Math.max(3, Math.floor(name.length / 4)) + 1;
+        for (const candidate of this.methods.keys()) {
+            const distance = editDistance(lowerName, candidate.toLowerCase());
+            if (distance < bestDistance) {
+                best = candidate;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+}
+
+/**
+ * Check request params against a method's parameter schemas. Unknown properties are
+ * allowed, null is treated like a missing optional parameter.
+ *
+ * @throws InvalidParamsError naming the first offending field, e.g. 'edits[0].range.start.line'
+ */
+export function validateParams(
+    method: string,
+    schemas: { [name: string]: ParamSchema } | undefined,
+    params: unknown
+): void {
+    try {
+        if (!isPlainObject(params)) {
+            throw new InvalidFieldError('params', 'must be an object', params);
+        }
+        if (schemas) {
+            validateProperties(schemas, params, '');
+        }
+    } catch (error) {
+        if (error instanceof InvalidFieldError) {
+            throw new InvalidParamsError(`Invalid params for ${method}: '${error.field}' ${error.problem}`, {
+                field: error.field,
+                received: typeName(error.value)
+            });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Raised while walking the params, turned into an InvalidParamsError by validateParams
+ */
+class InvalidFieldError extends Error {
+    constructor(public readonly field: string, public readonly problem: string, public readonly value: unknown) {
+        super(`'${field}' ${problem}`);
+    }
+}
+
+const TYPE_DESCRIPTIONS: { [type in ParamType]: string } = {
+    string: 'a string',
+    number: 'a number',
+    integer: 'an integer',
+    boolean: 'a boolean',
+    object: 'an object',
+    array: 'an array',
+    position: 'a position { line, character }',
+    range: 'a range { start, end }',
+    uri: 'a URI string',
+    any: 'a value'
+};
+
+function validateProperties(schemas: { [name: string]: ParamSchema }, value: { [name: string]: unknown }, path: string): void {
+    for (const [name, schema] of Object.entries(schemas)) {
+        const field = path ? `${path}.${name}` : name;
+        const property = value[name];
+        if (property === undefined || property === null) {
+            if (schema.required) {
+                throw new InvalidFieldError(field, 'is required', property);
+            }
+            continue;
+        }
+        validateValue(schema, property, field);
+    }
+}
+
+function validateValue(schema: ParamSchema, value: unknown, field: string): void {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = types.find(candidate => matchesType(candidate, value));
+    if (!type) {
+        const expected = types.map(candidate => TYPE_DESCRIPTIONS[candidate]).join(' or ');
+        throw new InvalidFieldError(field, `must be ${expected}`, value);
+    }
+
+    if (schema.enum && !matchesEnum(schema, value)) {
+        const allowed = schema.enum.map(option => JSON.stringify(option)).join(', ');
+        throw new InvalidFieldError(field, `must be one of ${allowed}`, value);
+    }
+
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+        const problem = schema.minimum === 0 ? 'must not be negative' : `must be at least ${schema.minimum}`;
+        throw new InvalidFieldError(field, problem, value);
+    }
+
+    const object = value as { [name: string]: any };
+    switch (type) {
+        case 'position':
+            validatePosition(object, field);
+            break;
+        case 'range':
+            validatePosition(object.start, `${field}.start`);
+            validatePosition(object.end, `${field}.end`);
+            break;
+        case 'array':
+            if (schema.items) {
+                (value as unknown[]).forEach((item, index) => validateValue(schema.items!, item, `${field}[${index}]`));
+            }
+            break;
+        case 'object':
+            if (schema.properties) {
+                validateProperties(schema.properties, object, field);
+            }
+            break;
+    }
+}
+
+function validatePosition(value: any, field: string): void {
+    if (!isPlainObject(value)) {
+        throw new InvalidFieldError(field, `must be ${TYPE_DESCRIPTIONS.position}`, value);
+    }
+    for (const name of ['line', 'character']) {
+        const coordinate = value[name];
+        if (typeof coordinate !== 'number' || !Number.isInteger(coordinate) || coordinate < 0) {
+            throw new InvalidFieldError(`${field}.${name}`, 'must be a non-negative integer', coordinate);
+        }
+    }
+}
+
+function matchesType(type: ParamType, value: unknown): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'object':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+        // Positions and ranges are told apart by their keys so both can be accepted in one parameter
+        case 'position':
+            return isPlainObject(value) && ('line' in value || 'character' in value);
+        case 'range':
+            return isPlainObject(value) && ('start' in value || 'end' in value);
+        case 'uri':
+            return typeof value === 'string' && value.length > 0;
+        case 'any':
+            return true;
+    }
+}
+
+function matchesEnum(schema: ParamSchema, value: unknown): boolean {
+    if (schema.ignoreCase && typeof value === 'string') {
+        const lowerValue = value.toLowerCase();
+        return schema.enum!.some(option => typeof option === 'string' && option.toLowerCase() === lowerValue);
+    }
+    return schema.enum!.includes(value as string | number);
+}
+
+function isPlainObject(value: unknown): value is { [name: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+    let index = 0;
+    for (const char of haystack) {
+        if (char === needle[index]) {
+            index++;
+        }
+    }
+    return index === needle.length;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
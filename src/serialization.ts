@@ -0,0 +1,278 @@
+import * as vscode from 'vscode';
+import { InvalidParamsError } from './errors';
+
+/**
+ * VS Code types sent as tagged objects, `{ $type: 'Uri', value: 'file:///...' }` or
+ * `{ $type: 'Range', start: {...}, end: {...} }`, so they survive the trip through JSON
+ */
+export const TAGGED_TYPES = [
+    'Uri',
+    'Position',
+    'Range',
+    'Selection',
+    'Location',
+    'LocationLink',
+    'Diagnostic',
+    'TextEdit',
+    'WorkspaceEdit',
+    'SymbolInformation',
+    'DocumentSymbol',
+    'Hover',
+    'CompletionList',
+    'MarkdownString'
+] as const;
+
+export type TaggedType = typeof TAGGED_TYPES[number];
+
+/**
+ * Turn a value returned by VS Code into JSON, VS Code objects becoming tagged objects.
+ * Other objects are copied field by field, so tagged values can appear at any depth.
+ */
+export function serializeValue(value: any): any {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(serializeValue);
+    }
+    if (value instanceof vscode.Uri) {
+        return { $type: 'Uri', value: value.toString() };
+    }
+    // Selection before Range, which it extends
+    if (value instanceof vscode.Selection) {
+        return tagged('Selection', value, ['anchor', 'active']);
+    }
+    if (value instanceof vscode.Range) {
+        return tagged('Range', value, ['start', 'end']);
+    }
+    if (value instanceof vscode.Position) {
+        return tagged('Position', value, ['line', 'character']);
+    }
+    if (value instanceof vscode.Location) {
+        return tagged('Location', value, ['uri', 'range']);
+    }
+    if (value.targetUri instanceof vscode.Uri && value.targetRange instanceof vscode.Range) {
+        return tagged('LocationLink', value, ['originSelectionRange', 'targetUri', 'targetRange', 'targetSelectionRange']);
+    }
+    if (value instanceof vscode.Diagnostic) {
+        return tagged('Diagnostic', value, ['range', 'message', 'severity', 'source', 'code', 'relatedInformation', 'tags']);
+    }
+    if (value instanceof vscode.TextEdit) {
+        return tagged('TextEdit', value, ['range', 'newText', 'newEol']);
+    }
+    if (value instanceof vscode.WorkspaceEdit) {
+        return {
+            $type: 'WorkspaceEdit',
+            entries: value.entries().map(([uri, edits]) => ({ uri: serializeValue(uri), edits: serializeValue(edits) }))
+        };
+    }
+    // vscode.executeDocumentSymbolProvider returns SymbolInformation subclasses carrying
+    // the DocumentSymbol fields too, the nested form is the one worth keeping
+    if (value instanceof vscode.DocumentSymbol || (Array.isArray(value.children) && value.selectionRange instanceof vscode.Range)) {
+        return tagged('DocumentSymbol', value, ['name', 'detail', 'kind', 'tags', 'range', 'selectionRange', 'children']);
+    }
+    if (value instanceof vscode.SymbolInformation) {
+        return tagged('SymbolInformation', value, ['name', 'kind', 'containerName', 'location', 'tags']);
+    }
+    if (value instanceof vscode.Hover) {
+        return tagged('Hover', value, ['contents', 'range']);
+    }
+    if (value instanceof vscode.CompletionList) {
+        return tagged('CompletionList', value, ['isIncomplete', 'items']);
+    }
+    if (value instanceof vscode.MarkdownString) {
+        return tagged('MarkdownString', value, ['value', 'isTrusted', 'supportThemeIcons', 'supportHtml']);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, serializeValue(field)]));
+}
+
+function tagged(type: TaggedType, value: any, fields: string[]): any {
+    const result: any = { $type: type };
+    for (const field of fields) {
+        if (value[field] !== undefined) {
+            result[field] = serializeValue(value[field]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Turn JSON sent by a client into VS Code objects, the reverse of {@link serializeValue}.
+ * Untagged values are kept as they are; where a tagged type expects a position,
+ * range or URI, a plain `{ line, character }`, `{ start, end }` or URI string also works.
+ *
+ * @param field Name of the parameter, used in error messages
+ * @throws InvalidParamsError for an unknown $type or a tagged value missing fields
+ */
+export function reviveValue(value: any, field: string): any {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => reviveValue(item, `${field}[${index}]`));
+    }
+    if (typeof value.$type !== 'string') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reviveValue(item, `${field}.${key}`)]));
+    }
+    if (!(TAGGED_TYPES as readonly string[]).includes(value.$type)) {
+        throw new InvalidParamsError(
+            `'${field}' has unknown $type '${value.$type}', expected one of ${TAGGED_TYPES.join(', ')}`,
+            { field, expected: TAGGED_TYPES, received: value.$type }
+        );
+    }
+    return REVIVERS[value.$type as TaggedType](new TaggedFields(value, field));
+}
+
+/**
+ * Fields of a tagged value being revived, checked and revived in turn
+ */
+class TaggedFields {
+    constructor(private readonly value: any, private readonly field: string) {}
+
+    optional(name: string): any {
+        return reviveValue(this.value[name] ?? undefined, `${this.field}.${name}`);
+    }
+
+    required(name: string): any {
+        if (this.value[name] === undefined || this.value[name] === null) {
+            throw new InvalidParamsError(`'${this.field}.${name}' is required`, { field: `${this.field}.${name}` });
+        }
+        return this.optional(name);
+    }
+
+    integer(name: string): number {
+        const value = this.required(name);
+        if (!Number.isInteger(value)) {
+            throw new InvalidParamsError(`'${this.field}.${name}' must be an integer`, { field: `${this.field}.${name}` });
+        }
+        return value;
+    }
+
+    string(name: string): string {
+        const value = this.required(name);
+        if (typeof value !== 'string') {
+            throw new InvalidParamsError(`'${this.field}.${name}' must be a string`, { field: `${this.field}.${name}` });
+        }
+        return value;
+    }
+
+    uri(name: string): vscode.Uri {
+        const value = this.required(name);
+        return value instanceof vscode.Uri ? value : vscode.Uri.parse(this.string(name));
+    }
+
+    position(name: string): vscode.Position {
+        const value = this.required(name);
+        if (value instanceof vscode.Position) {
+            return value;
+        }
+        const fields = new TaggedFields(value, `${this.field}.${name}`);
+        return new vscode.Position(fields.integer('line'), fields.integer('character'));
+    }
+
+    range(name: string): vscode.Range {
+        const value = this.required(name);
+        if (value instanceof vscode.Range) {
+            return value;
+        }
+        const fields = new TaggedFields(value, `${this.field}.${name}`);
+        return new vscode.Range(fields.position('start'), fields.position('end'));
+    }
+
+    optionalRange(name: string): vscode.Range | undefined {
+        return this.value[name] === undefined || this.value[name] === null ? undefined : this.range(name);
+    }
+
+    location(name: string): vscode.Location {
+        const value = this.required(name);
+        if (value instanceof vscode.Location) {
+            return value;
+        }
+        const fields = new TaggedFields(value, `${this.field}.${name}`);
+        return new vscode.Location(fields.uri('uri'), fields.range('range'));
+    }
+
+    /**
+     * An optional array of plain objects, each read by a callback
+     */
+    list<T>(name: string, read: (item: TaggedFields) => T): T[] | undefined {
+        const value = this.value[name];
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        if (!Array.isArray(value)) {
+            throw new InvalidParamsError(`'${this.field}.${name}' must be an array`, { field: `${this.field}.${name}` });
+        }
+        return value.map((item, index) => read(new TaggedFields(item ?? {}, `${this.field}.${name}[${index}]`)));
+    }
+
+    /**
+     * Every field, revived
+     */
+    all(): any {
+        return reviveValue(this.value, this.field);
+    }
+
+    /**
+     * Copy optional fields onto a constructed object
+     */
+    assign<T>(target: T, names: string[]): T {
+        for (const name of names) {
+            const value = this.optional(name);
+            if (value !== undefined) {
+                (target as any)[name] = value;
+            }
+        }
+        return target;
+    }
+}
+
+const REVIVERS: { [type in TaggedType]: (fields: TaggedFields) => any } = {
+    Uri: fields => fields.uri('value'),
+    Position: fields => new vscode.Position(fields.integer('line'), fields.integer('character')),
+    Range: fields => new vscode.Range(fields.position('start'), fields.position('end')),
+    Selection: fields => new vscode.Selection(fields.position('anchor'), fields.position('active')),
+    Location: fields => new vscode.Location(fields.uri('uri'), fields.range('range')),
+    LocationLink: (fields): vscode.LocationLink => ({
+        originSelectionRange: fields.optionalRange('originSelectionRange'),
+        targetUri: fields.uri('targetUri'),
+        targetRange: fields.range('targetRange'),
+        targetSelectionRange: fields.optionalRange('targetSelectionRange')
+    }),
+    Diagnostic: fields => {
+        const diagnostic = new vscode.Diagnostic(fields.range('range'), fields.string('message'), fields.optional('severity'));
+        diagnostic.relatedInformation = fields.list('relatedInformation', information =>
+            new vscode.DiagnosticRelatedInformation(information.location('location'), information.string('message'))
+        );
+        return fields.assign(diagnostic, ['source', 'code', 'tags']);
+    },
+    TextEdit: fields => fields.assign(new vscode.TextEdit(fields.range('range'), fields.string('newText')), ['newEol']),
+    WorkspaceEdit: fields => {
+        const edit = new vscode.WorkspaceEdit();
+        fields.required('entries');
+        fields.list('entries', entry => edit.set(entry.uri('uri'), entry.required('edits')));
+        return edit;
+    },
+    SymbolInformation: fields => fields.assign(new vscode.SymbolInformation(
+        fields.string('name'),
+        fields.integer('kind'),
+        fields.optional('containerName') ?? '',
+        fields.location('location')
+    ), ['tags']),
+    DocumentSymbol: fields => fields.assign(new vscode.DocumentSymbol(
+        fields.string('name'),
+        fields.optional('detail') ?? '',
+        fields.integer('kind'),
+        fields.range('range'),
+        fields.range('selectionRange')
+    ), ['tags', 'children']),
+    Hover: fields => new vscode.Hover(fields.required('contents'), fields.optionalRange('range')),
+    CompletionList: fields => new vscode.CompletionList(
+        fields.list('items', item => Object.assign(new vscode.CompletionItem(item.required('label')), item.all())),
+        fields.optional('isIncomplete')
+    ),
+    MarkdownString: fields => fields.assign(
+        new vscode.MarkdownString(fields.string('value'), fields.optional('supportThemeIcons')),
+        ['isTrusted', 'supportHtml']
+    )
+};
@@ -4,6 +4,165 @@ import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import { ClientConnection, OverflowPolicy, OverflowReport, RequestContext } from './connection';
+import {
+    CancelledError,
+    InvalidParamsError,
+    NoActiveEditorError,
+    NotFoundError,
+    SockpuppetError,
+    VersionConflictError,
+    errorCodeOf
+} from './errors';
+import { BYTE_ENCODINGS, ByteEncoding, decodeBytes, encodeBytes, readFileRange, writeFileRange } from './binary';
+import { BATCH_METHOD, BatchCallResult, resolveBatchReferences } from './batch';
+import { JsonRpcErrorCodes, invalidJsonRpcRequest, isJsonRpcMessage } from './jsonrpc';
+import { MethodDescriptor, MethodRegistry, ParamSchema, validateParams } from './registry';
+import { EventFilter, EventSubject, StampedEvent, SubscriptionOptions, matchesEventName } from './subscriptions';
+import { EVENT_CATALOG, EventGap, EventLog } from './events';
+import { EditTransaction } from './transactions';
+import { reviveValue, serializeValue } from './serialization';
+import {
+    ConfigurationSection,
+    configurationChanges,
+    configurationSectionKey,
+    toConfigurationSection
+} from './configuration';
+import {
+    DOCUMENT_DELTA_EVENT,
+    DOCUMENT_RESYNC_EVENT,
+    DOCUMENT_UNTRACKED_EVENT,
+    serializeContentChange
+} from './tracking';
+
+/**
+ * Notification sent by clients to cancel an in-flight request: { method, params: { id } }
+ */
+const CANCEL_REQUEST_METHOD = '$/cancelRequest';
+
+/**
+ * First message a client must send, carrying the per-session token: { id, method, params: { token } }
+ */
+const AUTH_METHOD = 'auth';
+
+/**
+ * Subject of events about a text document, for subscription filters
+ */
+function documentSubject(document: vscode.TextDocument): EventSubject {
+    return { uri: document.uri, languageId: document.languageId };
+}
+
+/**
+ * Undo stop options as sent by a client, VS Code's defaults apply to missing fields
+ */
+function undoStopOptions(options: any): { undoStopBefore: boolean; undoStopAfter: boolean } | undefined {
+    if (!options) {
+        return undefined;
+    }
+    return { undoStopBefore: options.undoStopBefore ?? true, undoStopAfter: options.undoStopAfter ?? true };
+}
+
+function toPosition(position: { line: number; character: number }): vscode.Position {
+    return new vscode.Position(position.line, position.character);
+}
+
+/**
+ * The public fields of a call hierarchy item, leaving out the provider's internal ids
+ */
+function serializeCallHierarchyItem(item: vscode.CallHierarchyItem): any {
+    const { name, kind, detail, uri, range, selectionRange, tags } = item;
+    return serializeValue({ name, kind, detail, uri, range, selectionRange, tags });
+}
+
+/**
+ * Fail if a client computed an edit against another version of the document
+ *
+ * @param expectedVersion Version sent by the client, undefined or null to skip the check
+ */
+function checkDocumentVersion(document: vscode.TextDocument, expectedVersion: number | undefined | null): void {
+    if (expectedVersion !== undefined && expectedVersion !== null && document.version !== expectedVersion) {
+        throw new VersionConflictError(document.uri.toString(), expectedVersion, document.version);
+    }
+}
+
+/**
+ * Why a document changed: 'undo', 'redo', or null for any other edit
+ */
+function serializeChangeReason(reason: vscode.TextDocumentChangeReason | undefined): string | null {
+    switch (reason) {
+        case vscode.TextDocumentChangeReason.Undo:
+            return 'undo';
+        case vscode.TextDocumentChangeReason.Redo:
+            return 'redo';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Build an error response carrying the human-readable message, a stable error code,
+ * the method that failed and any structured data attached to the error
+ */
+function errorResponse(id: unknown, error: unknown, method?: unknown): any {
+    const response: any = {
+        id,
+        error: error instanceof Error ? error.message : String(error),
+        code: errorCodeOf(error)
+    };
+    if (typeof method === 'string') {
+        response.method = method;
+    }
+    if (error instanceof SockpuppetError && error.data !== undefined) {
+        response.data = error.data;
+    }
+    return response;
+}
+
+/**
+ * Version of the wire protocol spoken by this server, and the oldest client version it still accepts.
+ * Bump PROTOCOL_VERSION for additions clients may want to detect, and MIN_PROTOCOL_VERSION for breaking changes.
+ */
+const PROTOCOL_VERSION = 1;
+const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Kinds of resources clients can create, used to key ownership records
+ */
+type ResourceKind =
+    | 'webviewPanel'
+    | 'statusBarItem'
+    | 'terminal'
+    | 'fileWatcher'
+    | 'decorationType'
+    | 'diagnosticCollection'
+    | 'progress'
+    | 'editTransaction';
+
+/**
+ * Settle with the promise's outcome, or reject with a CancelledError as soon as
+ * the token is cancelled
+ */
+function raceCancellation<T>(promise: Promise<T>, token: vscode.CancellationToken | undefined): Promise<T> {
+    if (!token) {
+        return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+        const listener = token.onCancellationRequested(() => {
+            listener.dispose();
+            reject(new CancelledError());
+        });
+        promise.then(
+            value => {
+                listener.dispose();
+                resolve(value);
+            },
+            error => {
+                listener.dispose();
+                reject(error);
+            }
+        );
+    });
+}
 
 /**
  * Manages a webview panel and its associated event disposables
@@ -58,8 +217,9 @@ class FileSystemWatcherState {
 export class VSCodeServer {
     private server: net.Server | undefined;
     private pipePath: string;
-    private clients: Set<net.Socket> = new Set();
-    private clientSubscriptions: Map<net.Socket, Set<string>> = new Map();
+    private authToken: string;
+    private readonly methods = new MethodRegistry();
+    private clients: Map<net.Socket, ClientConnection> = new Map();
     private eventDisposables: vscode.Disposable[] = [];
     private webviewPanels: Map<string, WebviewPanelState> = new Map();
     private diagnosticCollections: Map<string, vscode.DiagnosticCollection> = new Map();
@@ -68,13 +228,29 @@ export class VSCodeServer {
     private terminals: Map<string, vscode.Terminal> = new Map();
     private fileWatchers: Map<string, FileSystemWatcherState> = new Map();
     private decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private editTransactions: Map<string, EditTransaction> = new Map();
+    /** Owning client of each resource, keyed by `${kind}:${id}` */
+    private resourceOwners: Map<string, ClientConnection> = new Map();
+    /** Recent broadcast events, replayed to clients subscribing with sinceSequence */
+    private readonly eventLog: EventLog;
 
     constructor(private context: vscode.ExtensionContext) {
         // Create unique pipe path for this VS Code instance
         this.pipePath = this.generateUniquePipePath();
+
+        // Secret clients must present before any other request is served
+        this.authToken = crypto.randomBytes(32).toString('hex');
         
-        // Store pipe path in environment variable for child processes
+        // Store pipe path and token in environment variables for child processes
         process.env.VSCODE_SOCKPUPPET_PIPE = this.pipePath;
+        process.env.VSCODE_SOCKPUPPET_TOKEN = this.authToken;
+
+        this.eventLog = new EventLog(
+            vscode.workspace.getConfiguration('vscode-sockpuppet').get<number>('eventReplay.bufferSize', 1000)
+        );
+        
+        // Register the methods clients can call
+        this.registerMethods();
         
         // Set up event listeners
         this.setupEventListeners();
@@ -115,51 +291,43 @@ export class VSCodeServer {
 
         this.server = net.createServer((socket: net.Socket) => {
             console.log('Python client connected to', this.pipePath);
-            this.clients.add(socket);
-            this.clientSubscriptions.set(socket, new Set());
-            
-            let buffer = '';
+            const config = vscode.workspace.getConfiguration('vscode-sockpuppet');
+            const client = new ClientConnection(socket, config.get<number>('maxConcurrentRequests', 0), {
+                limit: config.get<number>('eventQueue.limit', 1000),
+                overflowPolicy: config.get<OverflowPolicy>('eventQueue.overflowPolicy', 'dropOldest')
+            });
+            client.authenticated = !this.isAuthenticationRequired();
+            client.onOverflow = report => this.resyncTrackedDocuments(client, report);
+            this.clients.set(socket, client);
             
-            socket.on('data', async (data: Buffer) => {
-                buffer += data.toString();
-                
-                // Process complete JSON messages (newline-delimited)
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
-                
-                for (const line of lines) {
-                    if (line.trim()) {
-                        try {
-                            const request = JSON.parse(line);
-                            // Add socket reference to request for event subscriptions
-                            request.socket = socket;
-                            const response = await this.handleRequest(request);
-                            socket.write(JSON.stringify(response) + '\n');
-                        } catch (error) {
-                            const errorResponse = {
-                                id: null,
-                                error: error instanceof Error ? error.message : String(error)
-                            };
-                            socket.write(JSON.stringify(errorResponse) + '\n');
-                        }
-                    }
+            socket.on('data', (data: Buffer) => {
+                // Dispatch each complete message without waiting for earlier ones,
+                // responses are matched to requests by id on the client side
+                for (const line of client.receive(data)) {
+                    this.dispatchMessage(client, line);
                 }
             });
 
             socket.on('close', () => {
                 console.log('Python client disconnected');
-                this.clients.delete(socket);
-                this.clientSubscriptions.delete(socket);
+                this.handleDisconnect(client);
             });
 
             socket.on('error', (error: Error) => {
                 console.error('Socket error:', error);
-                this.clients.delete(socket);
-                this.clientSubscriptions.delete(socket);
+                this.handleDisconnect(client);
             });
         });
 
         this.server.listen(this.pipePath, () => {
+            // Only the current user may open the socket on Unix systems
+            if (os.platform() !== 'win32') {
+                try {
+                    fs.chmodSync(this.pipePath, 0o600);
+                } catch (err) {
+                    console.error('Failed to restrict socket file permissions:', err);
+                }
+            }
             console.log(`VSCode Sockpuppet server listening on ${this.pipePath}`);
             vscode.window.showInformationMessage(`VSCode Sockpuppet is ready! Pipe: ${this.pipePath}`);
         });
@@ -172,14 +340,20 @@ export class VSCodeServer {
 
     stop(): void {
         if (this.server) {
-            this.clients.forEach(client => client.destroy());
+            this.clients.forEach(client => {
+                client.cancelAll();
+                client.subscriptions.clear();
+                client.socket.destroy();
+            });
             this.clients.clear();
-            this.clientSubscriptions.clear();
             this.server.close();
             
             // Dispose all event listeners
             this.eventDisposables.forEach(d => d.dispose());
             this.eventDisposables = [];
+
+            // Dispose everything clients created, including keep-alive resources
+            this.disposeAllResources();
             
             // Clean up socket file on Unix systems
             if (os.platform() !== 'win32' && fs.existsSync(this.pipePath)) {
@@ -190,8 +364,9 @@ export class VSCodeServer {
                 }
             }
             
-            // Clear environment variable
+            // Clear environment variables
             delete process.env.VSCODE_SOCKPUPPET_PIPE;
+            delete process.env.VSCODE_SOCKPUPPET_TOKEN;
         }
     }
 
@@ -199,6 +374,10 @@ export class VSCodeServer {
         return this.pipePath;
     }
 
+    getAuthToken(): string {
+        return this.authToken;
+    }
+
     isRunning(): boolean {
         return this.server !== undefined && this.server.listening;
     }
@@ -208,207 +387,1188 @@ export class VSCodeServer {
         const request = { id: -1, method, params: params || {} };
         const response = await this.handleRequest(request);
         if (response.error) {
-            throw new Error(response.error);
+            throw new SockpuppetError(response.code, response.error, response.data);
         }
         return response.result;
     }
 
-    private async handleRequest(request: any): Promise<any> {
-        const { id, method, params = {} } = request;
+    private handleDisconnect(client: ClientConnection): void {
+        client.cancelAll();
+        client.subscriptions.clear();
+        this.clients.delete(client.socket);
+        this.disposeClientResources(client);
+    }
+
+    /**
+     * Record the client that created a resource so it is disposed when that client
+     * disconnects. Resources created with keepAlive, or through executeMethod(),
+     * have no owner and live until they are disposed explicitly or the server stops.
+     */
+    private claimResource(kind: ResourceKind, id: string, context: RequestContext, keepAlive?: boolean): void {
+        const key = `${kind}:${id}`;
+        if (context.client && !keepAlive) {
+            this.resourceOwners.set(key, context.client);
+        } else {
+            this.resourceOwners.delete(key);
+        }
+    }
+
+    private releaseResource(kind: ResourceKind, id: string): void {
+        this.resourceOwners.delete(`${kind}:${id}`);
+    }
+
+    private disposeClientResources(client: ClientConnection): void {
+        for (const [key, owner] of Array.from(this.resourceOwners)) {
+            if (owner === client) {
+                const separator = key.indexOf(':');
+                this.disposeResource(key.substring(0, separator) as ResourceKind, key.substring(separator + 1));
+            }
+        }
+    }
 
+    private disposeResource(kind: ResourceKind, id: string): void {
+        this.releaseResource(kind, id);
         try {
-            let result;
-
-            // Route to appropriate handler based on method prefix
-            if (method.startsWith('window.')) {
-                result = await this.handleWindowRequest(method.substring(7), params);
-            } else if (method.startsWith('workspace.')) {
-                result = await this.handleWorkspaceRequest(method.substring(10), params);
-            } else if (method.startsWith('document.')) {
-                result = await this.handleDocumentRequest(method.substring(9), params);
-            } else if (method.startsWith('commands.')) {
-                result = await this.handleCommandsRequest(method.substring(9), params);
-            } else if (method.startsWith('env.')) {
-                result = await this.handleEnvironmentRequest(method.substring(4), params);
-            } else if (method.startsWith('events.')) {
-                result = this.handleEventsRequest(method.substring(7), params, request.socket);
-            } else if (method.startsWith('fs.')) {
-                result = await this.handleFileSystemRequest(method.substring(3), params);
-            } else if (method.startsWith('languages.')) {
-                result = await this.handleLanguagesRequest(method.substring(10), params);
-            } else if (method.startsWith('terminal.')) {
-                result = await this.handleTerminalRequest(method.substring(9), params);
-            } else if (method.startsWith('lm.')) {
-                result = await this.handleLanguageModelRequest(method.substring(3), params);
-            } else {
-                throw new Error(`Unknown method: ${method}`);
+            switch (kind) {
+                case 'webviewPanel':
+                    // Disposing the panel triggers onDidDispose, which removes its state
+                    this.webviewPanels.get(id)?.panel.dispose();
+                    break;
+
+                case 'statusBarItem':
+                    this.statusBarItems.get(id)?.dispose();
+                    this.statusBarItems.delete(id);
+                    break;
+
+                case 'terminal':
+                    this.terminals.get(id)?.dispose();
+                    this.terminals.delete(id);
+                    break;
+
+                case 'fileWatcher':
+                    this.fileWatchers.get(id)?.dispose();
+                    this.fileWatchers.delete(id);
+                    break;
+
+                case 'decorationType':
+                    this.decorationTypes.get(id)?.dispose();
+                    this.decorationTypes.delete(id);
+                    break;
+
+                case 'diagnosticCollection':
+                    this.diagnosticCollections.get(id)?.dispose();
+                    this.diagnosticCollections.delete(id);
+                    break;
+
+                case 'progress':
+                    // The waiting progress task notices the cancellation and cleans up
+                    this.progressTokens.get(id)?.cancel();
+                    break;
+
+                case 'editTransaction': {
+                    // Uncommitted edits are undone, unless the document changed since
+                    const transaction = this.editTransactions.get(id);
+                    this.editTransactions.delete(id);
+                    transaction?.rollback().then(undefined, err =>
+                        console.error(`Failed to roll back transaction ${id}:`, err)
+                    );
+                    break;
+                }
             }
+        } catch (err) {
+            console.error(`Failed to dispose ${kind} ${id}:`, err);
+        }
+    }
+
+    private disposeAllResources(): void {
+        const resources: Array<[ResourceKind, Iterable<string>]> = [
+            ['webviewPanel', this.webviewPanels.keys()],
+            ['statusBarItem', this.statusBarItems.keys()],
+            ['terminal', this.terminals.keys()],
+            ['fileWatcher', this.fileWatchers.keys()],
+            ['decorationType', this.decorationTypes.keys()],
+            ['diagnosticCollection', this.diagnosticCollections.keys()],
+            ['progress', this.progressTokens.keys()],
+            ['editTransaction', this.editTransactions.keys()]
+        ];
+        for (const [kind, ids] of resources) {
+            for (const id of Array.from(ids)) {
+                this.disposeResource(kind, id);
+            }
+        }
+        this.resourceOwners.clear();
+    }
 
-            return { id, result };
+    private dispatchMessage(client: ClientConnection, line: string): void {
+        // A client that failed authentication gets no second try, even within the same chunk
+        if (client.rejected) {
+            return;
+        }
+
+        let message: any;
+        try {
+            message = JSON.parse(line);
         } catch (error) {
-            return {
-                id,
-                error: error instanceof Error ? error.message : String(error)
-            };
+            this.reply(client, client.formatResponse(errorResponse(null, new InvalidParamsError(
+                `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+            )), JsonRpcErrorCodes.ParseError));
+            return;
+        }
+
+        // The first message decides whether the connection speaks JSON-RPC 2.0
+        if (client.protocol === undefined) {
+            client.protocol = isJsonRpcMessage(Array.isArray(message) ? message[0] : message) ? 'jsonrpc' : 'native';
+        }
+
+        if (!Array.isArray(message)) {
+            this.dispatchRequest(client, message)
+                .then(response => this.reply(client, response))
+                .catch(error => this.replyFailure(client, message, error));
+            return;
         }
+
+        // JSON-RPC batch: answered with one array once every request in it has completed
+        if (client.protocol !== 'jsonrpc' || message.length === 0) {
+            const reason = message.length === 0 ? 'Invalid request: empty batch' : 'Batch arrays require JSON-RPC 2.0 mode';
+            this.reply(client, client.formatResponse(
+                errorResponse(null, new InvalidParamsError(reason)),
+                JsonRpcErrorCodes.InvalidRequest
+            ));
+            return;
+        }
+        Promise.all(message.map(request => this.dispatchRequest(client, request))).then(responses => {
+            const replies = responses.filter(response => response !== undefined);
+            this.reply(client, replies.length > 0 ? replies : undefined);
+        }).catch(error => this.replyFailure(client, message, error));
     }
 
-    private async handleWindowRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'showInformationMessage':
-                return await vscode.window.showInformationMessage(params.message, ...(params.items || []));
+    /**
+     * Answer a message whose reply could not be sent, e.g. because a result does
+     * not serialize to JSON (cycles, BigInt), with an Internal error per request
+     */
+    private replyFailure(client: ClientConnection, message: any, error: unknown): void {
+        console.error('Failed to send reply:', error);
+        const failed = (request: any) => client.formatResponse(errorResponse(request?.id ?? null, error, request?.method));
+        try {
+            if (Array.isArray(message)) {
+                const replies = message.filter(request => request?.id !== undefined && request?.id !== null).map(failed);
+                this.reply(client, replies.length > 0 ? replies : undefined);
+            } else {
+                this.reply(client, failed(message));
+            }
+        } catch (err) {
+            console.error('Failed to send error reply:', err);
+        }
+    }
 
-            case 'showWarningMessage':
-                return await vscode.window.showWarningMessage(params.message, ...(params.items || []));
+    /**
+     * Send the reply to a message, if it has one, and close connections that failed authentication
+     */
+    private reply(client: ClientConnection, response: any): void {
+        if (response !== undefined) {
+            client.send(response);
+        }
+        if (client.rejected) {
+            // Close the socket for good once the error response is flushed, so nothing else is read from it
+            client.socket.end(() => client.socket.destroy());
+        }
+    }
 
-            case 'showErrorMessage':
-                return await vscode.window.showErrorMessage(params.message, ...(params.items || []));
+    /**
+     * Run a single request and resolve with the reply in the client's protocol,
+     * or undefined when the request is a notification that gets no reply
+     */
+    private async dispatchRequest(client: ClientConnection, request: any): Promise<any> {
+        // Later requests of a JSON-RPC batch that failed authentication are dropped too
+        if (client.rejected) {
+            return undefined;
+        }
+
+        const invalid = client.protocol === 'jsonrpc'
+            ? invalidJsonRpcRequest(request)
+            : (typeof request !== 'object' || request === null ? 'Invalid request: expected an object' : undefined);
+        if (invalid) {
+            return client.formatResponse(
+                errorResponse(request?.id ?? null, new InvalidParamsError(invalid)),
+                JsonRpcErrorCodes.InvalidRequest
+            );
+        }
 
-            case 'showQuickPick':
-                return await vscode.window.showQuickPick(params.items, params.options);
+        // JSON-RPC requests without an id are notifications, native requests are always answered
+        const hasId = request.id !== undefined && request.id !== null;
+        const expectsReply = client.protocol !== 'jsonrpc' || hasId;
 
-            case 'showInputBox':
-                return await vscode.window.showInputBox(params.options);
+        // Nothing but the auth handshake is served until the client has authenticated
+        if (!client.authenticated) {
+            const response = this.authenticate(client, request);
+            return expectsReply || client.rejected ? client.formatResponse(response) : undefined;
+        }
 
-            case 'showOpenDialog':
-                return await this.showOpenDialog(params);
+        // Cancellation is a notification handled outside the request queue,
+        // it only gets a response when the client sent it with an id
+        if (request.method === CANCEL_REQUEST_METHOD) {
+            const cancelled = client.cancelRequest(request.params?.id);
+            return hasId ? client.formatResponse({ id: request.id, result: { success: cancelled } }) : undefined;
+        }
 
-            case 'showSaveDialog':
-                return await this.showSaveDialog(params);
+        // Methods take their params by name, JSON-RPC's positional params cannot be mapped onto them
+        if (Array.isArray(request.params)) {
+            const error = new InvalidParamsError(
+                `Invalid params for ${request.method}: positional params are not supported, pass them by name in an object`,
+                { field: 'params', received: 'array' }
+            );
+            return expectsReply ? client.formatResponse(errorResponse(request.id, error, request.method)) : undefined;
+        }
 
-            case 'showWorkspaceFolderPick':
-                return await this.showWorkspaceFolderPick(params);
+        // Add client reference to request for event subscriptions
+        request.client = client;
+        request.token = client.beginRequest(request.id);
+        const response = await this.scheduleRequest(client, request, this.isSequential(request));
+        client.endRequest(request.id, request.token);
+        if (!expectsReply) {
+            return undefined;
+        }
 
-            case 'showTextDocument':
-                const doc = await vscode.workspace.openTextDocument(params.uri);
-                await vscode.window.showTextDocument(doc, params.options);
-                return { success: true };
+        // JSON-RPC reports unknown methods with their own error code
+        const methodNotFound = response.code === 'NotFound' && !this.methods.has(request.method);
+        return client.formatResponse(response, methodNotFound ? JsonRpcErrorCodes.MethodNotFound : undefined);
+    }
 
-            case 'visibleTextEditors':
-                return this.getVisibleTextEditors();
+    /**
+     * Run a request through the client's scheduler and resolve with its response. A cancelled
+     * request is answered right away, but keeps its scheduler slot and its place among the
+     * sequential requests until its handler has actually finished.
+     */
+    private scheduleRequest(client: ClientConnection, request: any, sequential: boolean): Promise<any> {
+        return new Promise((resolve, reject) => {
+            client.schedule(async () => {
+                const running: Promise<unknown>[] = [];
+                resolve(await this.handleRequest(request, running));
+                await Promise.allSettled(running);
+            }, sequential).catch(reject);
+        });
+    }
 
-            case 'createOutputChannel':
-                const channel = vscode.window.createOutputChannel(params.name);
-                if (params.show) {
-                    channel.show(params.preserveFocus);
-                }
-                if (params.text) {
-                    channel.appendLine(params.text);
-                }
-                return { success: true };
+    /**
+     * Whether a request must run in order with the client's other sequential requests.
+     * A batch does when any of its calls does.
+     */
+    private isSequential(request: any): boolean {
+        if (request.method === BATCH_METHOD && Array.isArray(request.params?.calls)) {
+            return request.params.calls.some((call: any) => this.methods.get(call?.method)?.sequential === true);
+        }
+        return this.methods.get(request.method)?.sequential === true;
+    }
 
-            case 'createTerminal':
-                const terminalId = `terminal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-                const terminal = vscode.window.createTerminal(params.name, params.shellPath, params.shellArgs);
-                this.terminals.set(terminalId, terminal);
-                return { terminalId };
+    private isAuthenticationRequired(): boolean {
+        return vscode.workspace
+            .getConfiguration('vscode-sockpuppet')
+            .get<boolean>('requireAuthentication', true);
+    }
 
-            case 'setStatusBarMessage':
-                vscode.window.setStatusBarMessage(params.text, params.hideAfterTimeout);
-                return { success: true };
+    /**
+     * Check the token of an 'auth' request and return the native response
+     */
+    private authenticate(client: ClientConnection, request: any): any {
+        const id = request.id ?? null;
+        if (request.method !== AUTH_METHOD) {
+            return errorResponse(id, new SockpuppetError(
+                'PermissionDenied',
+                `Authentication required: send an '${AUTH_METHOD}' request first`
+            ), request.method);
+        }
+
+        const token = request.params?.token;
+        const expected = Buffer.from(this.authToken);
+        const provided = Buffer.from(typeof token === 'string' ? token : '');
+        if (provided.length === expected.length && crypto.timingSafeEqual(provided, expected)) {
+            client.authenticated = true;
+            if (typeof request.params?.clientName === 'string' && request.params.clientName) {
+                client.clientName = request.params.clientName;
+            }
+            return { id, result: { success: true } };
+        }
 
-            case 'activeTextEditor.edit':
-                return await this.handleEditorEdit(params);
+        // Drop clients presenting a wrong token instead of letting them retry
+        console.warn('Rejected Python client with invalid authentication token');
+        client.rejected = true;
+        return errorResponse(id, new SockpuppetError('PermissionDenied', 'Authentication failed: invalid token'), AUTH_METHOD);
+    }
 
-            case 'activeTextEditor.selection':
-                return this.handleEditorGetSelection();
+    /**
+     * @param running Collects the handler's promise, which keeps running after the request is cancelled
+     */
+    private async handleRequest(request: any, running?: Promise<unknown>[]): Promise<any> {
+        const { id, method, token } = request;
+        const params = request.params ?? {};
 
-            case 'activeTextEditor.setSelection':
-                return this.handleEditorSetSelection(params);
+        try {
+            if (token?.isCancellationRequested) {
+                throw new CancelledError();
+            }
 
-            case 'activeTextEditor.selections':
-                return this.handleEditorGetSelections();
+            const registered = typeof method === 'string' ? this.methods.get(method) : undefined;
+            if (!registered) {
+                throw this.unknownMethodError(method);
+            }
 
-            case 'activeTextEditor.setSelections':
-                return this.handleEditorSetSelections(params);
+            // Reject malformed params before prompting the user or touching any VS Code API
+            validateParams(method, registered.params, params);
 
-            case 'activeTextEditor.insertSnippet':
-                return await this.handleEditorInsertSnippet(params);
+            // Socket clients are subject to the permission policy, in-process
+            // calls from other extensions are not
+            const client: ClientConnection | undefined = request.client;
+            if (client) {
+                await raceCancellation(
+                    client.permissions.authorize(method, registered.tier ?? 'read', client.clientName),
+                    token
+                );
+            }
 
-            case 'activeTextEditor.revealRange':
-                return this.handleEditorRevealRange(params);
+            // Answer as soon as the request is cancelled, even if the handler
+            // itself cannot be interrupted
+            const context: RequestContext = { client, token };
+            const handled = (async () => registered.handler(params, context))();
+            running?.push(handled);
+            const result = await raceCancellation(handled, token);
+            return { id, result };
+        } catch (error) {
+            if (error instanceof CancelledError || token?.isCancellationRequested) {
+                return { ...errorResponse(id, new CancelledError(), method), cancelled: true };
+            }
+            return errorResponse(id, error, method);
+        }
+    }
 
-            case 'activeTextEditor.options':
-                return this.handleEditorGetOptions();
+    private unknownMethodError(method: unknown): NotFoundError {
+        let message = `Unknown method: ${method}.`;
+        const suggestion = typeof method === 'string' ? this.methods.suggest(method) : undefined;
+        if (suggestion) {
+            message += ` Did you mean '${suggestion}'?`;
+        }
+        return new NotFoundError(
+            `${message} Call meta.listMethods to see the supported methods.`,
+            suggestion ? { method, suggestion } : { method }
+        );
+    }
 
-            case 'activeTextEditor.setOptions':
-                return this.handleEditorSetOptions(params);
+    private registerMethods(): void {
+        this.registerMetaMethods();
+        this.registerBatchMethods();
+        this.registerWindowMethods();
+        this.registerEditorMethods();
+        this.registerWorkspaceMethods();
+        this.registerDocumentMethods();
+        this.registerCommandsMethods();
+        this.registerEnvironmentMethods();
+        this.registerEventsMethods();
+        this.registerFileSystemMethods();
+        this.registerLanguagesMethods();
+        this.registerLanguageQueryMethods();
+        this.registerTerminalMethods();
+        this.registerLanguageModelMethods();
+    }
+
+    private registerMetaMethods(): void {
+        this.methods.register('initialize', {
+            description: 'Negotiate the protocol version and optional capabilities for this connection',
+            params: {
+                protocolVersion: { type: 'integer', required: true, description: 'Protocol version spoken by the client' },
+                capabilities: { type: 'array', items: { type: 'string' }, description: 'Optional capabilities the client wants to use' },
+                clientName: { type: 'string' },
+                clientVersion: { type: 'string' }
+            },
+            result: '{ serverVersion, protocolVersion, capabilities, limits }'
+        }, (params, context) => this.initialize(params, context));
 
-            case 'activeTextEditor.visibleRanges':
-                return this.handleEditorGetVisibleRanges();
+        this.methods.register('meta.listMethods', {
+            description: 'List the methods supported by this server',
+            params: {
+                namespace: { type: 'string', description: "Only list methods in this namespace, e.g. 'window'" }
+            },
+            result: 'Array of { name, description, tier }'
+        }, params => this.methods.list(params.namespace).map(name => {
+            const method = this.methods.describe(name)!;
+            return { name, description: method.description, tier: method.tier };
+        }));
 
-            case 'activeTextEditor.viewColumn':
-                return this.handleEditorGetViewColumn();
+        this.methods.register('meta.describe', {
+            description: 'Describe a method: its parameters, result, permission tier and ordering',
+            params: {
+                method: { type: 'string', required: true, description: "Full method name, e.g. 'window.showQuickPick'" }
+            },
+            result: '{ name, description, params, result, tier, sequential }'
+        }, params => {
+            const description = this.methods.describe(params.method);
+            if (!description) {
+                throw this.unknownMethodError(params.method);
+            }
+            return description;
+        });
+    }
 
-            case 'createWebviewPanel':
-                return this.createWebviewPanel(params);
+    private registerBatchMethods(): void {
+        this.methods.register(BATCH_METHOD, {
+            description: 'Run several calls in order in a single round trip; params may reference earlier results with { "$ref": "<index>.<path>" }',
+            params: {
+                calls: {
+                    type: 'array',
+                    required: true,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            method: { type: 'string', required: true },
+                            params: { type: 'object' }
+                        }
+                    }
+                },
+                stopOnError: { type: 'boolean', description: 'Skip the remaining calls after the first failure' }
+            },
+            result: 'Array of { result } or { error, code, method, data }, one per call that ran'
+        }, (params, context) => this.executeBatch(params, context));
+    }
 
-            case 'updateWebviewPanel':
-                return this.updateWebviewPanel(params);
+    private async executeBatch(params: any, context: RequestContext): Promise<BatchCallResult[]> {
+        const results: BatchCallResult[] = [];
+        // Calls cancelled along with the batch keep running, the batch holds its scheduler slot until they finish
+        const running: Promise<unknown>[] = [];
+        try {
+            for (const [index, call] of (params.calls as any[]).entries()) {
+                if (context.token?.isCancellationRequested) {
+                    throw new CancelledError();
+                }
 
-            case 'disposeWebviewPanel':
-                return this.disposeWebviewPanel(params);
+                // Each call goes through the same validation and permission checks as a standalone request
+                let response: any;
+                try {
+                    if (call.method === BATCH_METHOD) {
+                        throw new InvalidParamsError('Batches cannot be nested', { field: `calls[${index}].method` });
+                    }
+                    response = await this.handleRequest({
+                        method: call.method,
+                        params: resolveBatchReferences(call.params ?? {}, results, `calls[${index}].params`),
+                        client: context.client,
+                        token: context.token
+                    }, running);
+                } catch (error) {
+                    response = errorResponse(undefined, error, call.method);
+                }
 
-            case 'postMessageToWebview':
-                return this.postMessageToWebview(params);
+                const { id, ...result } = response;
+                results.push(result);
+                if (params.stopOnError && result.error !== undefined) {
+                    break;
+                }
+            }
+        } finally {
+            await Promise.allSettled(running);
+        }
+        return results;
+    }
 
-            case 'asWebviewUri':
-                return this.asWebviewUri(params);
+    /**
+     * Optional features this server supports, a client enables them by requesting them in 'initialize'
+     */
+    private getServerCapabilities(): string[] {
+        const capabilities = [
+            'authentication',
+            'base64',
+            'batch',
+            'cancellation',
+            'events',
+            'introspection',
+            'jsonrpc',
+            'permissions',
+            'resourceCleanup',
+            'webviews'
+        ];
+        if (typeof vscode.lm?.selectChatModels === 'function') {
+            capabilities.push('lm');
+        }
+        return capabilities;
+    }
+
+    private initialize(params: any, context: RequestContext): any {
+        const clientVersion = params.protocolVersion;
+        if (typeof clientVersion !== 'number' || clientVersion < MIN_PROTOCOL_VERSION) {
+            throw new InvalidParamsError(
+                `Incompatible protocol version ${clientVersion}: this server supports ` +
+                `versions ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`,
+                { field: 'protocolVersion', minProtocolVersion: MIN_PROTOCOL_VERSION, protocolVersion: PROTOCOL_VERSION }
+            );
+        }
 
-            case 'createStatusBarItem':
-                return this.createStatusBarItem(params);
+        // Newer clients fall back to the server's version and disable what it lacks
+        const protocolVersion = Math.min(clientVersion, PROTOCOL_VERSION);
+        const supported = this.getServerCapabilities();
+        const requested: string[] = Array.isArray(params.capabilities) ? params.capabilities : [];
+        const enabled = requested.filter(capability => supported.includes(capability));
 
-            case 'updateStatusBarItem':
-                return this.updateStatusBarItem(params);
+        const client = context.client;
+        if (client) {
+            client.protocolVersion = protocolVersion;
+            client.capabilities = new Set(enabled);
+            if (typeof params.clientName === 'string' && params.clientName) {
+                client.clientName = params.clientName;
+            }
+        }
 
-            case 'disposeStatusBarItem':
-                return this.disposeStatusBarItem(params);
+        return {
+            serverVersion: this.context.extension.packageJSON.version,
+            protocolVersion,
+            capabilities: {
+                supported,
+                enabled
+            },
+            limits: {
+                maxConcurrentRequests: client?.maxConcurrentRequests ?? 0,
+                eventQueueLimit: client?.eventQueue.limit ?? 0,
+                overflowPolicy: client?.eventQueue.overflowPolicy ?? 'dropOldest',
+                eventReplayBuffer: this.eventLog.capacity
+            }
+        };
+    }
 
-            case 'withProgress':
-                return await this.withProgress(params);
+    private registerWindowMethods(): void {
+        const messageParams: { [name: string]: ParamSchema } = {
+            message: { type: 'string', required: true, description: 'Message text' },
+            items: { type: 'array', items: { type: 'string' }, description: 'Buttons to show' }
+        };
 
-            case 'state':
-                // Return current window state (focused) and include `active`
-                // when the property is available on the runtime WindowState.
-                const state: any = { focused: vscode.window.state.focused };
-                if ('active' in vscode.window.state) {
-                    // Property may exist on some platforms/VS Code versions
-                    state.active = (vscode.window.state as any).active;
-                }
-                return state;
+        this.methods.register('window.showInformationMessage', {
+            description: 'Show an information message',
+            params: messageParams,
+            result: 'The clicked item, or undefined if dismissed'
+        }, async params => await vscode.window.showInformationMessage(params.message, ...(params.items || [])));
+
+        this.methods.register('window.showWarningMessage', {
+            description: 'Show a warning message',
+            params: messageParams,
+            result: 'The clicked item, or undefined if dismissed'
+        }, async params => await vscode.window.showWarningMessage(params.message, ...(params.items || [])));
+
+        this.methods.register('window.showErrorMessage', {
+            description: 'Show an error message',
+            params: messageParams,
+            result: 'The clicked item, or undefined if dismissed'
+        }, async params => await vscode.window.showErrorMessage(params.message, ...(params.items || [])));
+
+        this.methods.register('window.showQuickPick', {
+            description: 'Show a selection list',
+            params: {
+                items: { type: 'array', required: true, items: { type: ['string', 'object'] }, description: 'Strings or QuickPickItem objects' },
+                options: { type: 'object', description: 'QuickPickOptions (title, placeHolder, canPickMany, ...)' }
+            },
+            result: 'The selected item(s), or undefined if cancelled'
+        }, async (params, context) => await vscode.window.showQuickPick(params.items, params.options, context.token));
 
-            case 'tabGroups.all':
-                return this.getTabGroups();
+        this.methods.register('window.showInputBox', {
+            description: 'Show an input box asking the user for a string',
+            params: {
+                options: { type: 'object', description: 'InputBoxOptions (prompt, placeHolder, value, password, ...)' }
+            },
+            result: 'The entered string, or undefined if cancelled'
+        }, async (params, context) => await vscode.window.showInputBox(params.options, context.token));
 
-            case 'tabGroups.activeTabGroup':
-                return this.getActiveTabGroup();
+        this.methods.register('window.showOpenDialog', {
+            description: 'Show a file open dialog',
+            params: {
+                options: { type: 'object', description: 'defaultUri, openLabel, canSelectFiles, canSelectFolders, canSelectMany, filters, title' }
+            },
+            result: '{ uris } or null if cancelled'
+        }, params => this.showOpenDialog(params));
 
-            case 'tabGroups.closeTab':
-                return await this.closeTab(params);
+        this.methods.register('window.showSaveDialog', {
+            description: 'Show a file save dialog',
+            params: {
+                options: { type: 'object', description: 'defaultUri, saveLabel, filters, title' }
+            },
+            result: '{ uri } or null if cancelled'
+        }, params => this.showSaveDialog(params));
 
-            case 'tabGroups.closeGroup':
-                return await this.closeTabGroup(params);
-                
-            case 'createTextEditorDecorationType':
-                return this.createTextEditorDecorationType(params);
+        this.methods.register('window.showWorkspaceFolderPick', {
+            description: 'Let the user pick a workspace folder',
+            params: {
+                options: { type: 'object', description: 'placeHolder, ignoreFocusOut' }
+            },
+            result: '{ uri, name, index } or null if cancelled'
+        }, params => this.showWorkspaceFolderPick(params));
+
+        this.methods.register('window.showTextDocument', {
+            description: 'Open a document and show it in an editor',
+            params: {
+                uri: { type: 'string', required: true, description: 'File path of the document' },
+                options: { type: 'object', description: 'TextDocumentShowOptions (viewColumn, preserveFocus, preview, selection)' }
+            },
+            result: '{ success }'
+        }, async params => {
+            const doc = await vscode.workspace.openTextDocument(params.uri);
+            await vscode.window.showTextDocument(doc, params.options);
+            return { success: true };
+        });
 
-            case 'activeTextEditor.setDecorations':
-                return this.handleSetDecorations(params);
+        this.methods.register('window.visibleTextEditors', {
+            description: 'List the visible text editors',
+            result: 'Array of { uri, viewColumn, selection }'
+        }, () => this.getVisibleTextEditors());
+
+        this.methods.register('window.createOutputChannel', {
+            description: 'Create an output channel and optionally write a line to it',
+            params: {
+                name: { type: 'string', required: true, description: 'Channel name' },
+                show: { type: 'boolean', description: 'Reveal the channel' },
+                preserveFocus: { type: 'boolean', description: 'Keep focus in the editor when showing' },
+                text: { type: 'string', description: 'Line to append' }
+            },
+            result: '{ success }'
+        }, params => {
+            const channel = vscode.window.createOutputChannel(params.name);
+            if (params.show) {
+                channel.show(params.preserveFocus);
+            }
+            if (params.text) {
+                channel.appendLine(params.text);
+            }
+            return { success: true };
+        });
 
-            case 'disposeTextEditorDecorationType':
-                return this.disposeTextEditorDecorationType(params);
+        this.methods.register('window.createTerminal', {
+            description: 'Create an integrated terminal',
+            params: {
+                name: { type: 'string', description: 'Terminal name' },
+                shellPath: { type: 'string', description: 'Shell executable' },
+                shellArgs: { type: ['array', 'string'], description: 'Shell arguments' },
+                keepAlive: { type: 'boolean', description: 'Keep the terminal after the client disconnects' }
+            },
+            result: '{ terminalId }',
+            tier: 'external'
+        }, (params, context) => {
+            const terminalId = `terminal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            const terminal = vscode.window.createTerminal(params.name, params.shellPath, params.shellArgs);
+            this.terminals.set(terminalId, terminal);
+            this.claimResource('terminal', terminalId, context, params.keepAlive);
+            return { terminalId };
+        });
 
-            default:
-                throw new Error(`Unknown window method: window.${method}`);
+        this.methods.register('window.setStatusBarMessage', {
+            description: 'Show a transient message in the status bar',
+            params: {
+                text: { type: 'string', required: true, description: 'Message text' },
+                hideAfterTimeout: { type: 'number', description: 'Milliseconds after which the message is hidden' }
+            },
+            result: '{ success }'
+        }, params => {
+            vscode.window.setStatusBarMessage(params.text, params.hideAfterTimeout);
+            return { success: true };
+        });
+
+        this.methods.register('window.createWebviewPanel', {
+            description: 'Create a webview panel',
+            params: {
+                id: { type: 'string', required: true, description: 'Client-chosen panel id, replaces an existing panel with the same id' },
+                viewType: { type: 'string', required: true },
+                title: { type: 'string', required: true },
+                showOptions: { type: ['integer', 'object'], description: 'View column or { viewColumn, preserveFocus }, defaults to 1' },
+                options: {
+                    type: 'object',
+                    properties: {
+                        enableScripts: { type: 'boolean' },
+                        retainContextWhenHidden: { type: 'boolean' },
+                        localResourceRoots: { type: 'array', items: { type: 'uri' } }
+                    }
+                },
+                html: { type: 'string', description: 'Initial HTML content' },
+                keepAlive: { type: 'boolean', description: 'Keep the panel after the client disconnects' }
+            },
+            result: '{ success, id, visible, active }'
+        }, (params, context) => this.createWebviewPanel(params, context));
+
+        this.methods.register('window.updateWebviewPanel', {
+            description: 'Update the HTML, title or icon of a webview panel',
+            params: {
+                id: { type: 'string', required: true },
+                html: { type: 'string' },
+                title: { type: 'string' },
+                iconPath: { type: 'string', description: 'File system path of the icon' }
+            },
+            result: '{ success, visible, active }'
+        }, params => this.updateWebviewPanel(params));
+
+        this.methods.register('window.disposeWebviewPanel', {
+            description: 'Close a webview panel',
+            params: {
+                id: { type: 'string', required: true }
+            },
+            result: '{ success }'
+        }, params => this.disposeWebviewPanel(params));
+
+        this.methods.register('window.postMessageToWebview', {
+            description: 'Post a message to the scripts of a webview panel',
+            params: {
+                id: { type: 'string', required: true },
+                message: { type: 'any', required: true, description: 'JSON-serializable message' }
+            },
+            result: '{ success }'
+        }, params => this.postMessageToWebview(params));
+
+        this.methods.register('window.asWebviewUri', {
+            description: 'Convert a local resource URI to one a webview can load',
+            params: {
+                id: { type: 'string', required: true },
+                uri: { type: 'uri', required: true }
+            },
+            result: '{ webviewUri }'
+        }, params => this.asWebviewUri(params));
+
+        this.methods.register('window.createStatusBarItem', {
+            description: 'Create a status bar item',
+            params: {
+                id: { type: 'string', required: true, description: 'Client-chosen item id' },
+                alignment: { type: 'string', enum: ['left', 'right'] },
+                priority: { type: 'number' },
+                keepAlive: { type: 'boolean', description: 'Keep the item after the client disconnects' }
+            },
+            result: '{ success, id }'
+        }, (params, context) => this.createStatusBarItem(params, context));
+
+        this.methods.register('window.updateStatusBarItem', {
+            description: 'Update and show or hide a status bar item',
+            params: {
+                id: { type: 'string', required: true },
+                text: { type: 'string' },
+                tooltip: { type: 'string' },
+                command: { type: 'string', description: 'Command run when the item is clicked' },
+                color: { type: 'string' },
+                backgroundColor: { type: 'string', description: 'Theme color id' },
+                show: { type: 'boolean' }
+            },
+            result: '{ success }'
+        }, params => this.updateStatusBarItem(params));
+
+        this.methods.register('window.disposeStatusBarItem', {
+            description: 'Remove a status bar item',
+            params: {
+                id: { type: 'string', required: true }
+            },
+            result: '{ success }'
+        }, params => this.disposeStatusBarItem(params));
+
+        this.methods.register('window.withProgress', {
+            description: "Show progress; with task 'wait' the request stays open until the progress is completed or cancelled",
+            params: {
+                location: { type: 'string', enum: ['notification', 'window', 'sourcecontrol'], ignoreCase: true },
+                title: { type: 'string' },
+                cancellable: { type: 'boolean' },
+                message: { type: 'string', description: 'Initial progress message' },
+                task: { type: 'string', enum: ['wait'] },
+                progressId: { type: 'string', description: "Id of a 'wait' progress task" },
+                keepAlive: { type: 'boolean' }
+            },
+            result: '{ success } or the value the progress task completes with'
+        }, (params, context) => this.withProgress(params, context));
+
+        this.methods.register('window.state', {
+            description: 'Get the current window state',
+            result: '{ focused, active? }'
+        }, () => {
+            // Return current window state (focused) and include `active`
+            // when the property is available on the runtime WindowState.
+            const state: any = { focused: vscode.window.state.focused };
+            if ('active' in vscode.window.state) {
+                // Property may exist on some platforms/VS Code versions
+                state.active = (vscode.window.state as any).active;
+            }
+            return state;
+        });
+
+        this.methods.register('window.tabGroups.all', {
+            description: 'List all tab groups and their tabs',
+            result: '{ groups }'
+        }, () => this.getTabGroups());
+
+        this.methods.register('window.tabGroups.activeTabGroup', {
+            description: 'Get the active tab group',
+            result: '{ group } or { group: null }'
+        }, () => this.getActiveTabGroup());
+
+        this.methods.register('window.tabGroups.closeTab', {
+            description: 'Close a tab by label',
+            params: {
+                groupId: { type: 'integer', required: true },
+                tabLabel: { type: 'string', required: true },
+                preserveFocus: { type: 'boolean' }
+            },
+            result: '{ success }',
+            tier: 'edit'
+        }, params => this.closeTab(params));
+
+        this.methods.register('window.tabGroups.closeGroup', {
+            description: 'Close a tab group',
+            params: {
+                groupId: { type: 'integer', required: true },
+                preserveFocus: { type: 'boolean' }
+            },
+            result: '{ success }',
+            tier: 'edit'
+        }, params => this.closeTabGroup(params));
+
+        this.methods.register('window.createTextEditorDecorationType', {
+            description: 'Create a decoration type',
+            params: {
+                options: { type: 'object', description: 'DecorationRenderOptions' },
+                keepAlive: { type: 'boolean', description: 'Keep the decoration type after the client disconnects' }
+            },
+            result: '{ id }'
+        }, (params, context) => this.createTextEditorDecorationType(params, context));
+
+        this.methods.register('window.disposeTextEditorDecorationType', {
+            description: 'Dispose a decoration type, removing its decorations',
+            params: {
+                decorationId: { type: 'string', required: true }
+            },
+            result: '{ success }'
+        }, params => this.disposeTextEditorDecorationType(params));
+    }
+
+    /**
+     * Editor methods are registered twice: as editor.* taking the uri and/or view
+     * column of a visible editor, and as window.activeTextEditor.* acting on the
+     * active editor. Editing methods can be part of a transaction instead, acting
+     * on the transaction's editor.
+     */
+    private registerEditorMethods(): void {
+        const positionParams: { [name: string]: ParamSchema } = {
+            start: { type: 'position', required: true },
+            end: { type: 'position', required: true }
+        };
+        const editorMethods: {
+            name: string;
+            describe: (editor: string) => string;
+            descriptor: Omit<MethodDescriptor, 'description'>;
+            /** Whether the method takes a transactionId */
+            transactional?: boolean;
+            handler: (editor: vscode.TextEditor, params: any, transaction?: EditTransaction) => any;
+        }[] = [
+            {
+                name: 'edit',
+                describe: editor => `Apply insert, delete and replace edits to ${editor}`,
+                descriptor: {
+                    params: {
+                        edits: {
+                            type: 'array',
+                            required: true,
+                            description: 'Edits to apply',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    type: { type: 'string', required: true, enum: ['insert', 'delete', 'replace'] },
+                                    range: { type: 'range', required: true },
+                                    text: { type: 'string', description: 'Text to insert or replace with' }
+                                }
+                            }
+                        },
+                        version: {
+                            type: 'integer',
+                            description: 'Document version the edits were computed against, fails with VersionConflict if it changed'
+                        },
+                        options: {
+                            type: 'object',
+                            description: 'Undo stops around the edits, ignored in transactions',
+                            properties: {
+                                undoStopBefore: { type: 'boolean' },
+                                undoStopAfter: { type: 'boolean' }
+                            }
+                        }
+                    },
+                    result: '{ success, version }',
+                    tier: 'edit',
+                    sequential: true
+                },
+                transactional: true,
+                handler: (editor, params, transaction) => this.handleEditorEdit(editor, params, transaction)
+            },
+            {
+                name: 'selection',
+                describe: editor => `Get the primary selection of ${editor}`,
+                descriptor: { result: '{ start, end, text }' },
+                handler: editor => this.handleEditorGetSelection(editor)
+            },
+            {
+                name: 'setSelection',
+                describe: editor => `Set the primary selection of ${editor}`,
+                descriptor: { params: positionParams, result: '{ success }', tier: 'edit', sequential: true },
+                transactional: true,
+                handler: (editor, params) => this.handleEditorSetSelection(editor, params)
+            },
+            {
+                name: 'selections',
+                describe: editor => `Get all selections of ${editor}`,
+                descriptor: { result: 'Array of { start, end, anchor, active }' },
+                handler: editor => this.handleEditorGetSelections(editor)
+            },
+            {
+                name: 'setSelections',
+                describe: editor => `Set all selections of ${editor}`,
+                descriptor: {
+                    params: {
+                        selections: {
+                            type: 'array',
+                            required: true,
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    anchor: { type: 'position', required: true },
+                                    active: { type: 'position', required: true }
+                                }
+                            }
+                        }
+                    },
+                    result: '{ success }',
+                    tier: 'edit',
+                    sequential: true
+                },
+                transactional: true,
+                handler: (editor, params) => this.handleEditorSetSelections(editor, params)
+            },
+            {
+                name: 'insertSnippet',
+                describe: editor => `Insert a snippet into ${editor}`,
+                descriptor: {
+                    params: {
+                        snippet: { type: 'string', required: true, description: 'Snippet in TextMate snippet syntax' },
+                        location: {
+                            type: ['position', 'range', 'array'],
+                            items: { type: ['position', 'range'] },
+                            description: 'Where to insert, defaults to the current selections'
+                        },
+                        options: {
+                            type: 'object',
+                            description: 'Undo stops around the snippet, ignored in transactions',
+                            properties: {
+                                undoStopBefore: { type: 'boolean' },
+                                undoStopAfter: { type: 'boolean' }
+                            }
+                        }
+                    },
+                    result: '{ success, version }',
+                    tier: 'edit',
+                    sequential: true
+                },
+                transactional: true,
+                handler: (editor, params, transaction) => this.handleEditorInsertSnippet(editor, params, transaction)
+            },
+            {
+                name: 'revealRange',
+                describe: editor => `Scroll ${editor} to reveal a range`,
+                descriptor: {
+                    params: {
+                        ...positionParams,
+                        revealType: { type: 'string', enum: ['Default', 'InCenter', 'InCenterIfOutsideViewport', 'AtTop'] }
+                    },
+                    result: '{ success }'
+                },
+                handler: (editor, params) => this.handleEditorRevealRange(editor, params)
+            },
+            {
+                name: 'options',
+                describe: editor => `Get the options of ${editor}`,
+                descriptor: { result: '{ tabSize, insertSpaces, cursorStyle, lineNumbers }' },
+                handler: editor => this.handleEditorGetOptions(editor)
+            },
+            {
+                name: 'setOptions',
+                describe: editor => `Change options of ${editor}`,
+                descriptor: {
+                    params: {
+                        tabSize: { type: ['integer', 'string'] },
+                        insertSpaces: { type: ['boolean', 'string'] },
+                        cursorStyle: { type: 'integer' },
+                        lineNumbers: { type: 'integer' }
+                    },
+                    result: '{ success }',
+                    tier: 'edit'
+                },
+                handler: (editor, params) => this.handleEditorSetOptions(editor, params)
+            },
+            {
+                name: 'visibleRanges',
+                describe: editor => `Get the visible ranges of ${editor}`,
+                descriptor: { result: 'Array of ranges' },
+                handler: editor => this.handleEditorGetVisibleRanges(editor)
+            },
+            {
+                name: 'viewColumn',
+                describe: editor => `Get the view column of ${editor}`,
+                descriptor: { result: '{ viewColumn }, -1 if unknown' },
+                handler: editor => this.handleEditorGetViewColumn(editor)
+            },
+            {
+                name: 'setDecorations',
+                describe: editor => `Apply a decoration type to ranges of ${editor}`,
+                descriptor: {
+                    params: {
+                        decorationId: { type: 'string', required: true },
+                        ranges: { type: 'array', required: true, items: { type: 'range' } }
+                    },
+                    result: '{ success }'
+                },
+                handler: (editor, params) => this.handleSetDecorations(editor, params)
+            }
+        ];
+
+        const targetParams: { [name: string]: ParamSchema } = {
+            uri: { type: 'uri', description: 'Document shown in the editor' },
+            viewColumn: { type: 'integer', description: 'View column of the editor, as listed by window.visibleTextEditors' }
+        };
+        const transactionParams: { [name: string]: ParamSchema } = {
+            transactionId: {
+                type: 'string',
+                description: 'Make the call part of a transaction from editor.beginTransaction, acting on its editor'
+            }
+        };
+        for (const { name, describe, descriptor, transactional, handler } of editorMethods) {
+            const methodParams = transactional ? { ...descriptor.params, ...transactionParams } : descriptor.params;
+            const inTransaction = (params: any, context: RequestContext) => {
+                const transaction = this.findEditTransaction(params.transactionId, context);
+                return handler(transaction.editor, params, transaction);
+            };
+
+            this.methods.register(`editor.${name}`, {
+                ...descriptor,
+                description: `${describe('a visible editor')}, chosen by uri and/or viewColumn`,
+                params: { ...targetParams, ...methodParams }
+            }, (params, context) => transactional && params.transactionId !== undefined
+                ? inTransaction(params, context)
+                : handler(this.findTextEditor(params.uri, params.viewColumn), params));
+
+            this.methods.register(`window.activeTextEditor.${name}`, {
+                ...descriptor,
+                description: describe('the active editor'),
+                params: methodParams
+            }, (params, context) => transactional && params.transactionId !== undefined
+                ? inTransaction(params, context)
+                : handler(this.activeTextEditor(), params));
+        }
+
+        this.methods.register('editor.beginTransaction', {
+            description: 'Start grouping edits, snippets and selection changes of a visible editor, chosen by uri '
+                + 'and/or viewColumn, into a single undo step',
+            params: targetParams,
+            result: '{ transactionId, version }',
+            tier: 'edit',
+            sequential: true
+        }, (params, context) => this.beginEditTransaction(this.findTextEditor(params.uri, params.viewColumn), context));
+
+        this.methods.register('window.activeTextEditor.beginTransaction', {
+            description: 'Start grouping edits, snippets and selection changes of the active editor into a single undo step',
+            result: '{ transactionId, version }',
+            tier: 'edit',
+            sequential: true
+        }, (params, context) => this.beginEditTransaction(this.activeTextEditor(), context));
+
+        const transactionIdParams: { [name: string]: ParamSchema } = {
+            transactionId: { type: 'string', required: true }
+        };
+        this.methods.register('editor.commitTransaction', {
+            description: 'End a transaction, keeping its changes as one undo step',
+            params: transactionIdParams,
+            result: '{ success, version }',
+            tier: 'edit',
+            sequential: true
+        }, (params, context) => this.commitEditTransaction(params.transactionId, context));
+
+        this.methods.register('editor.rollbackTransaction', {
+            description: 'End a transaction, restoring the text and selections from its start. '
+                + 'Fails with VersionConflict, leaving the transaction open, if the document changed outside of it',
+            params: transactionIdParams,
+            result: '{ success, version }',
+            tier: 'edit',
+            sequential: true
+        }, (params, context) => this.rollbackEditTransaction(params.transactionId, context));
+    }
+
+    private beginEditTransaction(editor: vscode.TextEditor, context: RequestContext): any {
+        const transactionId = `transaction-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        this.editTransactions.set(transactionId, new EditTransaction(transactionId, editor));
+        this.claimResource('editTransaction', transactionId, context);
+        return { transactionId, version: editor.document.version };
+    }
+
+    /**
+     * A transaction started by the calling client, the only one allowed to use it
+     *
+     * @throws InvalidParamsError if another client started the transaction
+     */
+    private findEditTransaction(transactionId: string, context: RequestContext): EditTransaction {
+        const transaction = this.editTransactions.get(transactionId);
+        if (!transaction) {
+            throw new NotFoundError(`Transaction not found: ${transactionId}`, { transactionId });
+        }
+        if (this.resourceOwners.get(`editTransaction:${transactionId}`) !== context.client) {
+            throw new InvalidParamsError(`Transaction ${transactionId} belongs to another client`, {
+                field: 'transactionId',
+                transactionId
+            });
         }
+        return transaction;
+    }
+
+    private async commitEditTransaction(transactionId: string, context: RequestContext): Promise<any> {
+        const transaction = this.findEditTransaction(transactionId, context);
+        this.editTransactions.delete(transactionId);
+        this.releaseResource('editTransaction', transactionId);
+        const success = await transaction.commit();
+        return { success, version: transaction.editor.document.version };
+    }
+
+    private async rollbackEditTransaction(transactionId: string, context: RequestContext): Promise<any> {
+        const transaction = this.findEditTransaction(transactionId, context);
+        const success = await transaction.rollback();
+        this.editTransactions.delete(transactionId);
+        this.releaseResource('editTransaction', transactionId);
+        return { success, version: transaction.editor.document.version };
     }
 
-    private async handleEditorEdit(params: any): Promise<any> {
+    private activeTextEditor(): vscode.TextEditor {
         if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
+            throw new NoActiveEditorError();
+        }
+        return vscode.window.activeTextEditor;
+    }
+
+    /**
+     * The visible editor showing a document and/or in a view column
+     *
+     * @throws InvalidParamsError if neither is given, or the document is shown in several columns
+     */
+    private findTextEditor(uri: string | undefined, viewColumn: number | undefined): vscode.TextEditor {
+        if (uri === undefined && viewColumn === undefined) {
+            throw new InvalidParamsError("Either 'uri' or 'viewColumn' is required", { field: 'uri' });
         }
 
-        await vscode.window.activeTextEditor.edit(editBuilder => {
+        const editors = vscode.window.visibleTextEditors.filter(editor =>
+            (uri === undefined || editor.document.uri.toString() === uri) &&
+            (viewColumn === undefined || editor.viewColumn === viewColumn)
+        );
+        if (editors.length === 0) {
+            const target = [uri, viewColumn === undefined ? undefined : `view column ${viewColumn}`]
+                .filter(part => part !== undefined)
+                .join(' in ');
+            throw new NotFoundError(`No visible editor for ${target}`, { uri, viewColumn });
+        }
+        if (editors.length > 1) {
+            const viewColumns = editors.map(editor => editor.viewColumn);
+            throw new InvalidParamsError(
+                `Document is shown in several editors (view columns ${viewColumns.join(', ')}), pass 'viewColumn'`,
+                { field: 'viewColumn', viewColumns }
+            );
+        }
+        return editors[0];
+    }
+
+    private async handleEditorEdit(editor: vscode.TextEditor, params: any, transaction?: EditTransaction): Promise<any> {
+        checkDocumentVersion(editor.document, params.version);
+        const edit = (options?: { undoStopBefore: boolean; undoStopAfter: boolean }) => editor.edit(editBuilder => {
             for (const edit of params.edits) {
                 const range = new vscode.Range(
                     edit.range.start.line,
@@ -424,40 +1584,29 @@ export class VSCodeServer {
                     editBuilder.replace(range, edit.text);
                 }
             }
-        });
-        return { success: true };
+        }, options);
+        const success = transaction ? await transaction.apply(edit) : await edit(undoStopOptions(params.options));
+        return { success, version: editor.document.version };
     }
 
-    private handleEditorGetSelection(): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        const selection = vscode.window.activeTextEditor.selection;
+    private handleEditorGetSelection(editor: vscode.TextEditor): any {
+        const selection = editor.selection;
         return {
             start: { line: selection.start.line, character: selection.start.character },
             end: { line: selection.end.line, character: selection.end.character },
-            text: vscode.window.activeTextEditor.document.getText(selection)
+            text: editor.document.getText(selection)
         };
     }
 
-    private handleEditorSetSelection(params: any): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
+    private handleEditorSetSelection(editor: vscode.TextEditor, params: any): any {
         const start = new vscode.Position(params.start.line, params.start.character);
         const end = new vscode.Position(params.end.line, params.end.character);
-        vscode.window.activeTextEditor.selection = new vscode.Selection(start, end);
+        editor.selection = new vscode.Selection(start, end);
         return { success: true };
     }
 
-    private handleEditorGetSelections(): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        return vscode.window.activeTextEditor.selections.map(selection => ({
+    private handleEditorGetSelections(editor: vscode.TextEditor): any {
+        return editor.selections.map(selection => ({
             start: { line: selection.start.line, character: selection.start.character },
             end: { line: selection.end.line, character: selection.end.character },
             anchor: { line: selection.anchor.line, character: selection.anchor.character },
@@ -465,12 +1614,8 @@ export class VSCodeServer {
         }));
     }
 
-    private handleEditorSetSelections(params: any): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        vscode.window.activeTextEditor.selections = params.selections.map((sel: any) => {
+    private handleEditorSetSelections(editor: vscode.TextEditor, params: any): any {
+        editor.selections = params.selections.map((sel: any) => {
             const anchor = new vscode.Position(sel.anchor.line, sel.anchor.character);
             const active = new vscode.Position(sel.active.line, sel.active.character);
             return new vscode.Selection(anchor, active);
@@ -478,11 +1623,7 @@ export class VSCodeServer {
         return { success: true };
     }
 
-    private async handleEditorInsertSnippet(params: any): Promise<any> {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
+    private async handleEditorInsertSnippet(editor: vscode.TextEditor, params: any, transaction?: EditTransaction): Promise<any> {
         const snippet = new vscode.SnippetString(params.snippet);
         
         let location: vscode.Position | vscode.Range | vscode.Position[] | vscode.Range[] | undefined;
@@ -516,20 +1657,13 @@ export class VSCodeServer {
             }
         }
 
-        const options = params.options ? {
-            undoStopBefore: params.options.undoStopBefore,
-            undoStopAfter: params.options.undoStopAfter
-        } : undefined;
-
-        const success = await vscode.window.activeTextEditor.insertSnippet(snippet, location, options);
-        return { success };
+        const insert = (options?: { undoStopBefore: boolean; undoStopAfter: boolean }) =>
+            editor.insertSnippet(snippet, location, options);
+        const success = transaction ? await transaction.apply(insert) : await insert(undoStopOptions(params.options));
+        return { success, version: editor.document.version };
     }
 
-    private handleEditorRevealRange(params: any): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
+    private handleEditorRevealRange(editor: vscode.TextEditor, params: any): any {
         const range = new vscode.Range(
             params.start.line,
             params.start.character,
@@ -547,16 +1681,12 @@ export class VSCodeServer {
             revealType = vscode.TextEditorRevealType.InCenterIfOutsideViewport;
         }
 
-        vscode.window.activeTextEditor.revealRange(range, revealType);
+        editor.revealRange(range, revealType);
         return { success: true };
     }
 
-    private handleEditorGetOptions(): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        const options = vscode.window.activeTextEditor.options;
+    private handleEditorGetOptions(editor: vscode.TextEditor): any {
+        const options = editor.options;
         return {
             tabSize: options.tabSize,
             insertSpaces: options.insertSpaces,
@@ -565,35 +1695,25 @@ export class VSCodeServer {
         };
     }
 
-    private handleEditorSetOptions(params: any): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        vscode.window.activeTextEditor.options = {
-            ...vscode.window.activeTextEditor.options,
-            ...params
+    private handleEditorSetOptions(editor: vscode.TextEditor, params: any): any {
+        const { tabSize, insertSpaces, cursorStyle, lineNumbers } = params;
+        const changes: vscode.TextEditorOptions = { tabSize, insertSpaces, cursorStyle, lineNumbers };
+        editor.options = {
+            ...editor.options,
+            ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined && value !== null))
         };
         return { success: true };
     }
 
-    private handleEditorGetVisibleRanges(): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        return vscode.window.activeTextEditor.visibleRanges.map(range => ({
+    private handleEditorGetVisibleRanges(editor: vscode.TextEditor): any {
+        return editor.visibleRanges.map(range => ({
             start: { line: range.start.line, character: range.start.character },
             end: { line: range.end.line, character: range.end.character }
         }));
     }
 
-    private handleEditorGetViewColumn(): any {
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        return { viewColumn: vscode.window.activeTextEditor.viewColumn || -1 };
+    private handleEditorGetViewColumn(editor: vscode.TextEditor): any {
+        return { viewColumn: editor.viewColumn || -1 };
     }
 
     private getVisibleTextEditors(): any[] {
@@ -607,18 +1727,19 @@ export class VSCodeServer {
         }));
     }
 
-    private createTextEditorDecorationType(params: any): any {
+    private createTextEditorDecorationType(params: any, context: RequestContext): any {
         const id = `decoration-${Date.now()}-${Math.random().toString(36).substr(2,9)}`;
         const options: vscode.DecorationRenderOptions = params.options || {};
         const decorationType = vscode.window.createTextEditorDecorationType(options);
         this.decorationTypes.set(id, decorationType);
+        this.claimResource('decorationType', id, context, params.keepAlive);
         return { id };
     }
 
     private disposeTextEditorDecorationType(params: any): any {
         const { decorationId } = params;
         if (!this.decorationTypes.has(decorationId)) {
-            throw new Error(`Decoration id not found: ${decorationId}`);
+            throw new NotFoundError(`Decoration id not found: ${decorationId}`, { decorationId });
         }
 
         const decorationType = this.decorationTypes.get(decorationId)!;
@@ -630,13 +1751,14 @@ export class VSCodeServer {
         }
 
         this.decorationTypes.delete(decorationId);
+        this.releaseResource('decorationType', decorationId);
         return { success: true };
     }
 
-    private handleSetDecorations(params: any): any {
+    private handleSetDecorations(editor: vscode.TextEditor, params: any): any {
         const { decorationId, ranges } = params;
         if (!this.decorationTypes.has(decorationId)) {
-            throw new Error(`Decoration id not found: ${decorationId}`);
+            throw new NotFoundError(`Decoration id not found: ${decorationId}`, { decorationId });
         }
         const decorationType = this.decorationTypes.get(decorationId)!;
         // Convert ranges to vscode.Range
@@ -644,268 +1766,650 @@ export class VSCodeServer {
             return new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character);
         });
 
-        if (!vscode.window.activeTextEditor) {
-            throw new Error('No active text editor');
-        }
-
-        vscode.window.activeTextEditor.setDecorations(decorationType, vscodeRanges);
+        editor.setDecorations(decorationType, vscodeRanges);
         return { success: true };
     }
 
-    private async handleWorkspaceRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'openTextDocument':
-                const document = await vscode.workspace.openTextDocument(
-                    params.uri || { content: params.content, language: params.language }
-                );
-                return this.serializeTextDocument(document);
-
-            case 'saveAll':
-                return await vscode.workspace.saveAll(params.includeUntitled);
-
-            case 'workspaceFolders':
-                return vscode.workspace.workspaceFolders?.map(folder => ({
-                    uri: folder.uri.toString(),
-                    name: folder.name,
-                    index: folder.index
-                })) || [];
+    private registerWorkspaceMethods(): void {
+        const scopeParam: ParamSchema = { type: 'uri', description: 'Resource the configuration is scoped to' };
 
-            case 'textDocuments':
-                return vscode.workspace.textDocuments.map(doc => this.serializeTextDocument(doc));
+        this.methods.register('workspace.openTextDocument', {
+            description: 'Open a document by path, or create an untitled document from content',
+            params: {
+                uri: { type: 'string', description: 'File path of the document to open' },
+                content: { type: 'string', description: 'Content of a new untitled document' },
+                language: { type: 'string', description: 'Language of a new untitled document' }
+            },
+            result: 'Serialized TextDocument'
+        }, async params => {
+            const document = await vscode.workspace.openTextDocument(
+                params.uri || { content: params.content, language: params.language }
+            );
+            return this.serializeTextDocument(document);
+        });
 
-            case 'getTextDocument':
-                const foundDoc = vscode.workspace.textDocuments.find(d => d.uri.toString() === params.uri);
-                if (!foundDoc) {
-                    throw new Error(`Document not found: ${params.uri}`);
+        this.methods.register('workspace.saveAll', {
+            description: 'Save all dirty documents',
+            params: {
+                includeUntitled: { type: 'boolean' }
+            },
+            result: 'True if all documents were saved',
+            tier: 'edit'
+        }, async params => await vscode.workspace.saveAll(params.includeUntitled));
+
+        this.methods.register('workspace.workspaceFolders', {
+            description: 'List the workspace folders',
+            result: 'Array of { uri, name, index }'
+        }, () => vscode.workspace.workspaceFolders?.map(folder => ({
+            uri: folder.uri.toString(),
+            name: folder.name,
+            index: folder.index
+        })) || []);
+
+        this.methods.register('workspace.textDocuments', {
+            description: 'List the open text documents',
+            result: 'Array of serialized TextDocuments'
+        }, () => vscode.workspace.textDocuments.map(doc => this.serializeTextDocument(doc)));
+
+        this.methods.register('workspace.getTextDocument', {
+            description: 'Get an open text document by URI',
+            params: {
+                uri: { type: 'uri', required: true }
+            },
+            result: 'Serialized TextDocument'
+        }, params => this.serializeTextDocument(this.findTextDocument(params.uri)));
+
+        this.methods.register('workspace.getConfiguration', {
+            description: 'Get a configuration value',
+            params: {
+                section: { type: 'string', description: "Dotted key such as 'editor.fontSize'" },
+                scope: scopeParam
+            },
+            result: 'The configuration value'
+        }, params => this.getConfiguration(params.section, params.scope));
+
+        this.methods.register('workspace.hasConfiguration', {
+            description: 'Check whether a configuration key exists',
+            params: {
+                section: { type: 'string', required: true },
+                scope: scopeParam
+            },
+            result: 'Boolean'
+        }, params => this.hasConfiguration(params.section, params.scope));
+
+        this.methods.register('workspace.inspectConfiguration', {
+            description: 'Get the default, global, workspace and language-specific values of a configuration key',
+            params: {
+                section: { type: 'string', required: true },
+                scope: scopeParam
+            },
+            result: 'Inspection object, or null'
+        }, params => this.inspectConfiguration(params.section, params.scope));
+
+        this.methods.register('workspace.updateConfiguration', {
+            description: 'Update a configuration value',
+            params: {
+                section: { type: 'string', required: true },
+                value: { type: 'any', description: 'New value, undefined removes it' },
+                configurationTarget: { type: ['integer', 'boolean'], description: '1 = Global, 2 = Workspace, 3 = WorkspaceFolder' },
+                scope: scopeParam,
+                overrideInLanguage: { type: 'boolean' }
+            },
+            result: '{ success }',
+            tier: 'destructive'
+        }, async params => await this.updateConfiguration(
+            params.section,
+            params.value,
+            params.configurationTarget,
+            params.scope,
+            params.overrideInLanguage
+        ));
+
+        const watchedSectionsParam: ParamSchema = {
+            type: 'array',
+            items: {
+                type: ['string', 'object'],
+                properties: {
+                    section: { type: 'string', required: true, description: "Dotted key such as 'editor.fontSize'" },
+                    scope: scopeParam,
+                    languageId: { type: 'string', description: 'Language the value is overridden for' }
                 }
-                return this.serializeTextDocument(foundDoc);
-
-            case 'getConfiguration':
-                return this.getConfiguration(params.section, params.scope);
-
-            case 'hasConfiguration':
-                return this.hasConfiguration(params.section, params.scope);
-
-            case 'inspectConfiguration':
-                return this.inspectConfiguration(params.section, params.scope);
-
-            case 'updateConfiguration':
-                return await this.updateConfiguration(
-                    params.section,
-                    params.value,
-                    params.configurationTarget,
-                    params.scope,
-                    params.overrideInLanguage
-                );
-
-            case 'createFileSystemWatcher':
-                return this.createFileSystemWatcher(params);
-
-            case 'disposeFileSystemWatcher':
-                return this.disposeFileSystemWatcher(params);
-
-            case 'findFiles':
-                return await this.findFiles(params);
+            },
+            description: "Section names, or { section, scope?, languageId? } to watch the value for a resource or language"
+        };
 
-            case 'getWorkspaceFolder':
-                return this.getWorkspaceFolder(params);
+        this.methods.register('workspace.watchConfiguration', {
+            description: 'Report changes of these configuration sections, with their new values, in workspace.onDidChangeConfiguration events',
+            params: {
+                sections: { ...watchedSectionsParam, required: true }
+            },
+            result: '{ success, sections } with every section this connection watches'
+        }, (params, context) => this.watchConfiguration(context.client, params.sections));
 
-            case 'asRelativePath':
-                return this.asRelativePath(params);
+        this.methods.register('workspace.unwatchConfiguration', {
+            description: 'Stop reporting changes of configuration sections',
+            params: {
+                sections: { ...watchedSectionsParam, description: 'Sections to stop watching, all of them if omitted' }
+            },
+            result: '{ success, sections } with every section this connection still watches'
+        }, (params, context) => this.unwatchConfiguration(context.client, params.sections));
+
+        this.methods.register('workspace.createFileSystemWatcher', {
+            description: 'Watch files matching a glob, events are broadcast as watcher.<watcherId>.onCreate/onChange/onDelete',
+            params: {
+                globPattern: { type: 'string', required: true },
+                ignoreCreateEvents: { type: 'boolean' },
+                ignoreChangeEvents: { type: 'boolean' },
+                ignoreDeleteEvents: { type: 'boolean' },
+                keepAlive: { type: 'boolean', description: 'Keep the watcher after the client disconnects' }
+            },
+            result: '{ watcherId }'
+        }, (params, context) => this.createFileSystemWatcher(params, context));
 
-            case 'applyEdit':
-                return await this.applyWorkspaceEdit(params);
+        this.methods.register('workspace.disposeFileSystemWatcher', {
+            description: 'Stop a file system watcher',
+            params: {
+                watcherId: { type: 'string', required: true }
+            },
+            result: '{ success }'
+        }, params => this.disposeFileSystemWatcher(params));
+
+        this.methods.register('workspace.findFiles', {
+            description: 'Find files in the workspace',
+            params: {
+                include: { type: 'string', required: true, description: 'Glob pattern of files to include' },
+                exclude: { type: 'string', description: 'Glob pattern of files to exclude, null disables default excludes' },
+                maxResults: { type: 'integer', minimum: 0 }
+            },
+            result: '{ files }'
+        }, (params, context) => this.findFiles(params, context.token));
 
-            default:
-                throw new Error(`Unknown workspace method: workspace.${method}`);
-        }
+        this.methods.register('workspace.getWorkspaceFolder', {
+            description: 'Get the workspace folder containing a URI',
+            params: {
+                uri: { type: 'uri', required: true }
+            },
+            result: '{ folder } with folder null if outside the workspace'
+        }, params => this.getWorkspaceFolder(params));
+
+        this.methods.register('workspace.asRelativePath', {
+            description: 'Get a path relative to the workspace folder',
+            params: {
+                pathOrUri: { type: 'string', required: true },
+                includeWorkspaceFolder: { type: 'boolean' }
+            },
+            result: '{ relativePath }'
+        }, params => this.asRelativePath(params));
+
+        this.methods.register('workspace.applyEdit', {
+            description: 'Apply a workspace edit: text edits plus file creates, deletes and renames',
+            params: {
+                documentChanges: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            uri: { type: 'uri', required: true },
+                            version: {
+                                type: 'integer',
+                                description: 'Document version the edits were computed against, fails with VersionConflict if it changed'
+                            },
+                            edits: {
+                                type: 'array',
+                                required: true,
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        range: { type: 'range', required: true },
+                                        newText: { type: 'string', required: true }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                },
+                createFiles: { type: 'array', items: { type: 'object', properties: { uri: { type: 'uri', required: true }, options: { type: 'object' } } } },
+                deleteFiles: { type: 'array', items: { type: 'object', properties: { uri: { type: 'uri', required: true }, options: { type: 'object' } } } },
+                renameFiles: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            oldUri: { type: 'uri', required: true },
+                            newUri: { type: 'uri', required: true },
+                            options: { type: 'object' }
+                        }
+                    }
+                }
+            },
+            result: '{ success, versions } with the version of each edited document afterwards',
+            tier: 'destructive',
+            sequential: true
+        }, params => this.applyWorkspaceEdit(params));
     }
 
-    private async handleDocumentRequest(method: string, params: any): Promise<any> {
-        const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === params.uri);
+    /**
+     * Find an open text document by URI string
+     */
+    private findTextDocument(uri: string): vscode.TextDocument {
+        const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
         if (!doc) {
-            throw new Error(`Document not found: ${params.uri}`);
+            throw new NotFoundError(`Document not found: ${uri}`, { uri });
         }
+        return doc;
+    }
 
-        switch (method) {
-            case 'save':
-                const saved = await doc.save();
-                return { success: saved, version: doc.version };
+    private registerDocumentMethods(): void {
+        const uriParam: ParamSchema = { type: 'uri', required: true, description: 'URI of an open document' };
 
-            case 'lineAt':
-                const line = doc.lineAt(params.line);
-                return this.serializeTextLine(line);
+        this.methods.register('document.track', {
+            description: `Mirror a document: returns its text, then ${DOCUMENT_DELTA_EVENT} events carry every change`,
+            params: { uri: uriParam },
+            result: '{ uri, version, languageId, eol, text }'
+        }, (params, context) => {
+            if (!context.client) {
+                throw new NotFoundError('Client not found');
+            }
+            return context.client.trackedDocuments.track(this.findTextDocument(params.uri));
+        });
 
-            case 'offsetAt':
-                const position = new vscode.Position(params.position.line, params.position.character);
-                return doc.offsetAt(position);
+        this.methods.register('document.untrack', {
+            description: 'Stop mirroring a document',
+            params: { uri: { type: 'uri', required: true } },
+            result: '{ success }'
+        }, (params, context) => ({ success: context.client?.trackedDocuments.untrack(params.uri) ?? false }));
+
+        this.methods.register('document.save', {
+            description: 'Save a document',
+            params: { uri: uriParam },
+            result: '{ success, version }',
+            tier: 'edit'
+        }, async params => {
+            const doc = this.findTextDocument(params.uri);
+            const saved = await doc.save();
+            return { success: saved, version: doc.version };
+        });
 
-            case 'positionAt':
-                const pos = doc.positionAt(params.offset);
-                return { line: pos.line, character: pos.character };
+        this.methods.register('document.lineAt', {
+            description: 'Get a line of a document',
+            params: {
+                uri: uriParam,
+                line: { type: 'integer', required: true, minimum: 0, description: 'Zero-based line number' }
+            },
+            result: 'Serialized TextLine'
+        }, params => this.serializeTextLine(this.findTextDocument(params.uri).lineAt(params.line)));
+
+        this.methods.register('document.offsetAt', {
+            description: 'Convert a position to a character offset',
+            params: {
+                uri: uriParam,
+                position: { type: 'position', required: true }
+            },
+            result: 'Offset number'
+        }, params => {
+            const position = new vscode.Position(params.position.line, params.position.character);
+            return this.findTextDocument(params.uri).offsetAt(position);
+        });
 
-            case 'getText':
-                if (params.range) {
-                    const range = new vscode.Range(
-                        params.range.start.line,
-                        params.range.start.character,
-                        params.range.end.line,
-                        params.range.end.character
-                    );
-                    return doc.getText(range);
-                }
-                return doc.getText();
-
-            case 'getWordRangeAtPosition':
-                const wordPos = new vscode.Position(params.position.line, params.position.character);
-                const regex = params.regex ? new RegExp(params.regex) : undefined;
-                const wordRange = doc.getWordRangeAtPosition(wordPos, regex);
-                if (!wordRange) {
-                    return null;
-                }
-                return {
-                    start: { line: wordRange.start.line, character: wordRange.start.character },
-                    end: { line: wordRange.end.line, character: wordRange.end.character }
-                };
+        this.methods.register('document.positionAt', {
+            description: 'Convert a character offset to a position',
+            params: {
+                uri: uriParam,
+                offset: { type: 'integer', required: true, minimum: 0 }
+            },
+            result: '{ line, character }'
+        }, params => {
+            const pos = this.findTextDocument(params.uri).positionAt(params.offset);
+            return { line: pos.line, character: pos.character };
+        });
 
-            case 'validateRange':
-                const rangeToValidate = new vscode.Range(
+        this.methods.register('document.getText', {
+            description: 'Get the text of a document, or of a range of it',
+            params: {
+                uri: uriParam,
+                range: { type: 'range' }
+            },
+            result: 'String'
+        }, params => {
+            const doc = this.findTextDocument(params.uri);
+            if (params.range) {
+                const range = new vscode.Range(
                     params.range.start.line,
                     params.range.start.character,
                     params.range.end.line,
                     params.range.end.character
                 );
-                const validatedRange = doc.validateRange(rangeToValidate);
-                return {
-                    start: { line: validatedRange.start.line, character: validatedRange.start.character },
-                    end: { line: validatedRange.end.line, character: validatedRange.end.character }
-                };
+                return doc.getText(range);
+            }
+            return doc.getText();
+        });
+
+        this.methods.register('document.getWordRangeAtPosition', {
+            description: 'Get the range of the word at a position',
+            params: {
+                uri: uriParam,
+                position: { type: 'position', required: true },
+                regex: { type: 'string', description: 'Regular expression defining a word' }
+            },
+            result: 'Range, or null if there is no word'
+        }, params => {
+            const doc = this.findTextDocument(params.uri);
+            const wordPos = new vscode.Position(params.position.line, params.position.character);
+            let regex: RegExp | undefined;
+            try {
+                regex = params.regex ? new RegExp(params.regex) : undefined;
+            } catch (error) {
+                throw new InvalidParamsError(
+                    `'regex' is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+                    { field: 'regex' }
+                );
+            }
+            const wordRange = doc.getWordRangeAtPosition(wordPos, regex);
+            if (!wordRange) {
+                return null;
+            }
+            return {
+                start: { line: wordRange.start.line, character: wordRange.start.character },
+                end: { line: wordRange.end.line, character: wordRange.end.character }
+            };
+        });
 
-            case 'validatePosition':
-                const posToValidate = new vscode.Position(params.position.line, params.position.character);
-                const validatedPos = doc.validatePosition(posToValidate);
-                return { line: validatedPos.line, character: validatedPos.character };
+        this.methods.register('document.validateRange', {
+            description: 'Clamp a range to the document',
+            params: {
+                uri: uriParam,
+                range: { type: 'range', required: true }
+            },
+            result: 'Range'
+        }, params => {
+            const rangeToValidate = new vscode.Range(
+                params.range.start.line,
+                params.range.start.character,
+                params.range.end.line,
+                params.range.end.character
+            );
+            const validatedRange = this.findTextDocument(params.uri).validateRange(rangeToValidate);
+            return {
+                start: { line: validatedRange.start.line, character: validatedRange.start.character },
+                end: { line: validatedRange.end.line, character: validatedRange.end.character }
+            };
+        });
 
-            default:
-                throw new Error(`Unknown document method: document.${method}`);
-        }
+        this.methods.register('document.validatePosition', {
+            description: 'Clamp a position to the document',
+            params: {
+                uri: uriParam,
+                position: { type: 'position', required: true }
+            },
+            result: '{ line, character }'
+        }, params => {
+            const posToValidate = new vscode.Position(params.position.line, params.position.character);
+            const validatedPos = this.findTextDocument(params.uri).validatePosition(posToValidate);
+            return { line: validatedPos.line, character: validatedPos.character };
+        });
     }
 
-    private async handleCommandsRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'executeCommand':
-                return await vscode.commands.executeCommand(params.command, ...(params.args || []));
-
-            case 'getCommands':
-                return await vscode.commands.getCommands(params.filterInternal);
+    private registerCommandsMethods(): void {
+        this.methods.register('commands.executeCommand', {
+            description: 'Execute a command',
+            params: {
+                command: { type: 'string', required: true, description: 'Command id' },
+                args: {
+                    type: 'array',
+                    description: "Command arguments, VS Code objects as tagged values such as { $type: 'Uri', value }"
+                }
+            },
+            result: 'The command result, VS Code objects as tagged values',
+            tier: 'external'
+        }, async params => {
+            const args = reviveValue(params.args || [], 'args');
+            return serializeValue(await vscode.commands.executeCommand(params.command, ...args));
+        });
 
-            default:
-                throw new Error(`Unknown commands method: commands.${method}`);
-        }
+        this.methods.register('commands.getCommands', {
+            description: 'List available command ids',
+            params: {
+                filterInternal: { type: 'boolean', description: 'Leave out commands starting with an underscore' }
+            },
+            result: 'Array of command ids'
+        }, async params => await vscode.commands.getCommands(params.filterInternal));
     }
 
-    private async handleEnvironmentRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'clipboard.writeText':
-                await vscode.env.clipboard.writeText(params.text);
-                return { success: true };
-
-            case 'clipboard.readText':
-                return await vscode.env.clipboard.readText();
-
-            case 'openExternal':
-                return await vscode.env.openExternal(vscode.Uri.parse(params.uri));
-
-            case 'asExternalUri':
-                const externalUri = await vscode.env.asExternalUri(vscode.Uri.parse(params.uri));
-                return externalUri.toString();
-
-            case 'appName':
-                return vscode.env.appName;
-
-            case 'appRoot':
-                return vscode.env.appRoot;
-
-            case 'language':
-                return vscode.env.language;
-
-            case 'machineId':
-                return vscode.env.machineId;
+    private registerEnvironmentMethods(): void {
+        this.methods.register('env.clipboard.writeText', {
+            description: 'Write text to the clipboard',
+            params: {
+                text: { type: 'string', required: true }
+            },
+            result: '{ success }',
+            tier: 'edit'
+        }, async params => {
+            await vscode.env.clipboard.writeText(params.text);
+            return { success: true };
+        });
 
-            case 'sessionId':
-                return vscode.env.sessionId;
+        this.methods.register('env.clipboard.readText', {
+            description: 'Read text from the clipboard',
+            result: 'String'
+        }, async () => await vscode.env.clipboard.readText());
 
-            case 'uriScheme':
-                return vscode.env.uriScheme;
+        this.methods.register('env.openExternal', {
+            description: 'Open a URI with the default external application',
+            params: {
+                uri: { type: 'uri', required: true }
+            },
+            result: 'True if the URI was opened',
+            tier: 'external'
+        }, async params => await vscode.env.openExternal(vscode.Uri.parse(params.uri)));
+
+        this.methods.register('env.asExternalUri', {
+            description: 'Resolve a URI to one reachable from outside (e.g. port forwarding in remote setups)',
+            params: {
+                uri: { type: 'uri', required: true }
+            },
+            result: 'URI string'
+        }, async params => {
+            const externalUri = await vscode.env.asExternalUri(vscode.Uri.parse(params.uri));
+            return externalUri.toString();
+        });
 
-            case 'shell':
-                return vscode.env.shell;
+        const properties: Array<[string, string, () => any]> = [
+            ['appName', 'Application name of the editor', () => vscode.env.appName],
+            ['appRoot', 'Installation folder of the editor', () => vscode.env.appRoot],
+            ['language', 'UI language', () => vscode.env.language],
+            ['machineId', 'Unique identifier of the computer', () => vscode.env.machineId],
+            ['sessionId', 'Unique identifier of the current session', () => vscode.env.sessionId],
+            ['uriScheme', 'Custom URI scheme of the editor', () => vscode.env.uriScheme],
+            ['shell', 'Default shell of the integrated terminal', () => vscode.env.shell],
+            ['uiKind', 'UI kind: 1 = Desktop, 2 = Web', () => vscode.env.uiKind]
+        ];
+        for (const [name, description, getter] of properties) {
+            this.methods.register(`env.${name}`, { description }, getter);
+        }
+    }
+
+    private registerEventsMethods(): void {
+        this.methods.register('events.subscribe', {
+            description: 'Subscribe this connection to an event, optionally filtered server-side',
+            params: {
+                event: {
+                    type: 'string',
+                    required: true,
+                    description: "Event name or pattern, e.g. 'workspace.onDidSaveTextDocument', 'workspace.*' or 'watcher.*.onChange'"
+                },
+                filter: {
+                    type: 'object',
+                    description: 'Only deliver events matching every given field',
+                    properties: {
+                        uri: { type: 'string', description: "Glob matched against the document or file path, e.g. '**/*.py'" },
+                        languageId: { type: ['string', 'array'], items: { type: 'string' } },
+                        scheme: { type: ['string', 'array'], items: { type: 'string' }, description: "URI scheme, e.g. 'file' or 'untitled'" },
+                        id: { type: 'string', description: 'File system watcher or webview panel id' }
+                    }
+                },
+                options: {
+                    type: 'object',
+                    description: 'Delivery timing for high-frequency events',
+                    properties: {
+                        debounce: { type: 'integer', minimum: 0, description: 'Hold events until none has fired for this many milliseconds' },
+                        throttle: { type: 'integer', minimum: 0, description: 'Send held events at most once per this many milliseconds' },
+                        coalesce: { type: 'boolean', description: 'Merge held events about the same document into one' }
+                    }
+                },
+                sinceSequence: {
+                    type: 'integer',
+                    minimum: 0,
+                    description: 'Replay buffered events after this sequence number before the response'
+                },
+                instanceId: {
+                    type: 'string',
+                    description: 'Server instance sinceSequence comes from, a different one replays every buffered event'
+                }
+            },
+            result: '{ success, subscriptionId, sequence, instanceId, replayed?, gap? }'
+        }, (params, context) => this.subscribeToEvent(context.client, params));
+
+        this.methods.register('events.unsubscribe', {
+            description: 'Remove one subscription by id, or every subscription to an event',
+            params: {
+                event: { type: 'string', description: 'Remove all subscriptions to this event or pattern' },
+                subscriptionId: { type: 'string', description: 'Remove only this subscription' }
+            },
+            result: '{ success }'
+        }, (params, context) => this.unsubscribeFromEvent(context.client, params));
 
-            case 'uiKind':
-                return vscode.env.uiKind;
+        this.methods.register('events.listSubscriptions', {
+            description: 'List the events this connection is subscribed to',
+            params: {
+                details: { type: 'boolean', description: 'Return each subscription with its id and filter' }
+            },
+            result: 'Array of event names, or of { id, event, filter } with details'
+        }, (params, context) => {
+            const subscriptions = context.client?.subscriptions;
+            if (!subscriptions) {
+                return [];
+            }
+            return params.details ? subscriptions.list() : subscriptions.events();
+        });
 
-            default:
-                throw new Error(`Unknown environment method: env.${method}`);
-        }
+        this.methods.register('events.listAvailable', {
+            description: 'List the events the server emits, with their payloads and the filters they support',
+            params: {
+                event: { type: 'string', description: "Only list events matching this pattern, e.g. 'window.*'" }
+            },
+            result: 'Array of { name, description, payload, filterBy }'
+        }, params => params.event === undefined
+            ? EVENT_CATALOG
+            : EVENT_CATALOG.filter(entry => matchesEventName(params.event, entry.name)));
     }
 
-    private handleEventsRequest(method: string, params: any, socket: net.Socket): any {
-        switch (method) {
-            case 'subscribe':
-                return this.subscribeToEvent(socket, params.event);
-
-            case 'unsubscribe':
-                return this.unsubscribeFromEvent(socket, params.event);
-
-            case 'listSubscriptions':
-                return Array.from(this.clientSubscriptions.get(socket) || []);
+    private subscribeToEvent(
+        client: ClientConnection | undefined,
+        params: {
+            event: string;
+            filter?: EventFilter;
+            options?: SubscriptionOptions;
+            sinceSequence?: number;
+            instanceId?: string;
+        }
+    ): { success: boolean; subscriptionId: string; sequence: number; instanceId: string; replayed?: number; gap?: EventGap } {
+        if (!client) {
+            throw new NotFoundError('Client not found');
+        }
 
-            default:
-                throw new Error(`Unknown events method: events.${method}`);
+        const subscription = client.subscriptions.add(params.event, params.filter, params.options);
+        const result = {
+            success: true,
+            subscriptionId: subscription.id,
+            sequence: this.eventLog.sequence,
+            instanceId: this.eventLog.instanceId
+        };
+        if (params.sinceSequence === undefined) {
+            return result;
         }
+
+        // Replayed events go out before the response, so they arrive ahead of any new event
+        const { events, gap } = this.eventLog.since(params.sinceSequence, params.instanceId);
+        const replayed = client.subscriptions.replay(
+            subscription.id,
+            events.map(event => this.eventForClient(client, event)).filter(event => event !== undefined)
+        );
+        return gap ? { ...result, replayed, gap } : { ...result, replayed };
     }
 
-    private subscribeToEvent(socket: net.Socket, eventName: string): { success: boolean } {
-        const subscriptions = this.clientSubscriptions.get(socket);
-        if (!subscriptions) {
-            throw new Error('Client not found');
+    private unsubscribeFromEvent(client: ClientConnection | undefined, params: any): { success: boolean } {
+        if (!client) {
+            throw new NotFoundError('Client not found');
         }
-        
-        subscriptions.add(eventName);
-        return { success: true };
-    }
 
-    private unsubscribeFromEvent(socket: net.Socket, eventName: string): { success: boolean } {
-        const subscriptions = this.clientSubscriptions.get(socket);
-        if (!subscriptions) {
-            throw new Error('Client not found');
+        if (params.subscriptionId !== undefined) {
+            return { success: client.subscriptions.remove(params.subscriptionId) };
         }
-        
-        subscriptions.delete(eventName);
+        if (params.event === undefined) {
+            throw new InvalidParamsError("Either 'event' or 'subscriptionId' is required", { field: 'event' });
+        }
+        client.subscriptions.removeEvent(params.event);
         return { success: true };
     }
 
-    private broadcastEvent(eventName: string, data: any): void {
-        const event = {
-            type: 'event',
-            event: eventName,
-            data
-        };
-        
-        const message = JSON.stringify(event) + '\n';
-        
-        this.clients.forEach(socket => {
-            const subscriptions = this.clientSubscriptions.get(socket);
-            if (subscriptions && subscriptions.has(eventName)) {
-                try {
-                    socket.write(message);
-                } catch (error) {
-                    console.error('Error broadcasting event:', error);
+    /**
+     * Number and record an event, then send it to every subscription it matches, once per subscription
+     *
+     * @param subject What the event is about, matched against subscription filters
+     */
+    private broadcastEvent(eventName: string, data: any, subject?: EventSubject): void {
+        const stamped = this.eventLog.record(eventName, data, subject);
+        this.clients.forEach(client => {
+            try {
+                const event = this.eventForClient(client, stamped);
+                if (event) {
+                    client.subscriptions.dispatch(event);
                 }
+            } catch (error) {
+                console.error('Error broadcasting event:', error);
             }
         });
     }
 
+    /**
+     * The event as a client gets it. Configuration changes are logged as VS Code's
+     * ConfigurationChangeEvent and reported with the sections the client watches at
+     * delivery, also when replayed; a client watching sections gets no event when none
+     * of them changed.
+     */
+    private eventForClient(client: ClientConnection, stamped: StampedEvent): StampedEvent | undefined {
+        if (stamped.event !== 'workspace.onDidChangeConfiguration') {
+            return stamped;
+        }
+        const sections = configurationChanges(
+            stamped.data as vscode.ConfigurationChangeEvent,
+            client.configurationSections.values()
+        );
+        if (sections.length === 0 && client.configurationSections.size > 0) {
+            return undefined;
+        }
+        return { ...stamped, data: { sections } };
+    }
+
+    /**
+     * Send fresh snapshots of the documents a client mirrors once it caught up
+     * after losing some of their deltas (or earlier snapshots) to an overflow
+     */
+    private resyncTrackedDocuments(client: ClientConnection, report: OverflowReport): void {
+        if (!report.events[DOCUMENT_DELTA_EVENT] && !report.events[DOCUMENT_RESYNC_EVENT]) {
+            return;
+        }
+        for (const uri of client.trackedDocuments.uris()) {
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+            if (document) {
+                client.sendEvent(DOCUMENT_RESYNC_EVENT, client.trackedDocuments.track(document));
+            } else {
+                client.trackedDocuments.untrack(uri);
+                client.sendEvent(DOCUMENT_UNTRACKED_EVENT, { uri, reason: 'closed' });
+            }
+        }
+    }
+
     private async showOpenDialog(params: any): Promise<any> {
         const options = params.options || {};
         
@@ -998,7 +2502,7 @@ export class VSCodeServer {
         return { uri: folder.uri.toString(), name: folder.name, index: folder.index };
     }
 
-    private createWebviewPanel(params: any): any {
+    private createWebviewPanel(params: any, context: RequestContext): any {
         const { id, viewType, title, showOptions, options, html } = params;
         
         // Dispose existing panel with same ID if it exists
@@ -1030,9 +2534,10 @@ export class VSCodeServer {
                 panelState.disposeListeners();
                 this.webviewPanels.delete(id);
             }
+            this.releaseResource('webviewPanel', id);
             
             // Broadcast disposal event to Python clients
-            this.broadcastEvent('webview.onDidDispose', { id });
+            this.broadcastEvent('webview.onDidDispose', { id }, { id });
         }));
 
         // Handle view state changes (visibility, active state)
@@ -1041,7 +2546,7 @@ export class VSCodeServer {
                 id,
                 visible: e.webviewPanel.visible,
                 active: e.webviewPanel.active
-            });
+            }, { id });
         }));
 
         // Handle messages from webview
@@ -1049,12 +2554,13 @@ export class VSCodeServer {
             this.broadcastEvent('webview.onDidReceiveMessage', {
                 id,
                 message
-            });
+            }, { id });
         }));
 
         // Store the panel state
         const panelState = new WebviewPanelState(panel, disposables);
         this.webviewPanels.set(id, panelState);
+        this.claimResource('webviewPanel', id, context, params.keepAlive);
 
         // This needs to be done after all the event listeners are registered
         if (html) {
@@ -1074,7 +2580,7 @@ export class VSCodeServer {
         
         const panelState = this.webviewPanels.get(id);
         if (!panelState) {
-            throw new Error(`Webview panel not found: ${id}`);
+            throw new NotFoundError(`Webview panel not found: ${id}`, { id });
         }
         const panel = panelState.panel;
 
@@ -1102,7 +2608,7 @@ export class VSCodeServer {
         
         const panelState = this.webviewPanels.get(id);
         if (!panelState) {
-            throw new Error(`Webview panel not found: ${id}`);
+            throw new NotFoundError(`Webview panel not found: ${id}`, { id });
         }
 
         // Dispose the panel (this will trigger onDidDispose which cleans up disposables)
@@ -1116,7 +2622,7 @@ export class VSCodeServer {
         
         const panelState = this.webviewPanels.get(id);
         if (!panelState) {
-            throw new Error(`Webview panel not found: ${id}`);
+            throw new NotFoundError(`Webview panel not found: ${id}`, { id });
         }
 
         panelState.panel.webview.postMessage(message);
@@ -1129,7 +2635,7 @@ export class VSCodeServer {
         
         const panelState = this.webviewPanels.get(id);
         if (!panelState) {
-            throw new Error(`Webview panel not found: ${id}`);
+            throw new NotFoundError(`Webview panel not found: ${id}`, { id });
         }
 
         // Parse the local URI and convert it to a webview URI
@@ -1174,137 +2680,458 @@ export class VSCodeServer {
     }
 
     // File System API Handlers
-    private async handleFileSystemRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'readFile':
-                const readData = await vscode.workspace.fs.readFile(vscode.Uri.parse(params.uri));
-                return Array.from(readData); // Convert Uint8Array to regular array for JSON
-
-            case 'writeFile':
-                const writeData = new Uint8Array(params.content);
-                await vscode.workspace.fs.writeFile(vscode.Uri.parse(params.uri), writeData);
-                return { success: true };
+    private registerFileSystemMethods(): void {
+        const uriParam: ParamSchema = { type: 'uri', required: true };
+        const transferParams: { [name: string]: ParamSchema } = {
+            source: { type: 'uri', required: true },
+            target: { type: 'uri', required: true },
+            options: { type: 'object', properties: { overwrite: { type: 'boolean' } } }
+        };
 
-            case 'delete':
-                await vscode.workspace.fs.delete(vscode.Uri.parse(params.uri), params.options);
-                return { success: true };
+        const encodingParam: ParamSchema = {
+            type: 'string',
+            enum: BYTE_ENCODINGS,
+            description: "Content format, defaults to 'base64' if the client enabled the 'base64' capability, else 'array'"
+        };
+        const contentParam: ParamSchema = {
+            type: ['string', 'array'],
+            required: true,
+            items: { type: 'integer' },
+            description: 'Base64 string or array of byte values'
+        };
 
-            case 'rename':
-                await vscode.workspace.fs.rename(
-                    vscode.Uri.parse(params.source),
-                    vscode.Uri.parse(params.target),
-                    params.options
-                );
-                return { success: true };
+        this.methods.register('fs.readFile', {
+            description: 'Read the contents of a file',
+            params: { uri: uriParam, encoding: encodingParam },
+            result: 'Base64 string or array of byte values'
+        }, async (params, context) => {
+            const readData = await vscode.workspace.fs.readFile(vscode.Uri.parse(params.uri));
+            return encodeBytes(readData, this.byteEncoding(params, context));
+        });
 
-            case 'copy':
-                await vscode.workspace.fs.copy(
-                    vscode.Uri.parse(params.source),
-                    vscode.Uri.parse(params.target),
-                    params.options
-                );
-                return { success: true };
+        this.methods.register('fs.readFileChunk', {
+            description: 'Read a byte range of a file, to stream large files in chunks',
+            params: {
+                uri: uriParam,
+                offset: { type: 'integer', required: true, minimum: 0, description: 'Byte offset to start reading at' },
+                length: { type: 'integer', required: true, minimum: 0, description: 'Maximum number of bytes to read' },
+                encoding: encodingParam
+            },
+            result: '{ content, offset, bytesRead, size, eof }'
+        }, async (params, context) => {
+            const { data, size } = await readFileRange(vscode.Uri.parse(params.uri), params.offset, params.length);
+            return {
+                content: encodeBytes(data, this.byteEncoding(params, context)),
+                offset: params.offset,
+                bytesRead: data.length,
+                size,
+                eof: params.offset + data.length >= size
+            };
+        });
 
-            case 'createDirectory':
-                await vscode.workspace.fs.createDirectory(vscode.Uri.parse(params.uri));
-                return { success: true };
+        this.methods.register('fs.writeFile', {
+            description: 'Write a file, replacing its contents',
+            params: {
+                uri: uriParam,
+                content: contentParam
+            },
+            result: '{ success }',
+            tier: 'destructive'
+        }, async params => {
+            const writeData = decodeBytes(params.content, 'content');
+            await vscode.workspace.fs.writeFile(vscode.Uri.parse(params.uri), writeData);
+            return { success: true };
+        });
+
+        this.methods.register('fs.writeFileChunk', {
+            description: 'Write bytes at an offset of a file, creating it if needed, to stream large files in chunks',
+            params: {
+                uri: uriParam,
+                content: contentParam,
+                offset: { type: 'integer', required: true, minimum: 0, description: 'Byte offset to start writing at' },
+                truncate: { type: 'boolean', description: 'Cut the file off after the written bytes' }
+            },
+            result: '{ success, bytesWritten, size }',
+            tier: 'destructive'
+        }, async params => {
+            const writeData = decodeBytes(params.content, 'content');
+            const size = await writeFileRange(vscode.Uri.parse(params.uri), writeData, params.offset, params.truncate === true);
+            return { success: true, bytesWritten: writeData.length, size };
+        });
 
-            case 'readDirectory':
-                const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.parse(params.uri));
-                return entries.map(([name, type]) => ({ name, type }));
+        this.methods.register('fs.delete', {
+            description: 'Delete a file or folder',
+            params: {
+                uri: uriParam,
+                options: { type: 'object', properties: { recursive: { type: 'boolean' }, useTrash: { type: 'boolean' } } }
+            },
+            result: '{ success }',
+            tier: 'destructive'
+        }, async params => {
+            await vscode.workspace.fs.delete(vscode.Uri.parse(params.uri), params.options);
+            return { success: true };
+        });
 
-            case 'stat':
-                const stat = await vscode.workspace.fs.stat(vscode.Uri.parse(params.uri));
-                return {
-                    type: stat.type,
-                    ctime: stat.ctime,
-                    mtime: stat.mtime,
-                    size: stat.size
-                };
+        this.methods.register('fs.rename', {
+            description: 'Rename or move a file or folder',
+            params: transferParams,
+            result: '{ success }',
+            tier: 'destructive'
+        }, async params => {
+            await vscode.workspace.fs.rename(
+                vscode.Uri.parse(params.source),
+                vscode.Uri.parse(params.target),
+                params.options
+            );
+            return { success: true };
+        });
 
-            default:
-                throw new Error(`Unknown fs method: fs.${method}`);
-        }
+        this.methods.register('fs.copy', {
+            description: 'Copy a file or folder',
+            params: transferParams,
+            result: '{ success }',
+            // options.overwrite replaces existing files
+            tier: 'destructive'
+        }, async params => {
+            await vscode.workspace.fs.copy(
+                vscode.Uri.parse(params.source),
+                vscode.Uri.parse(params.target),
+                params.options
+            );
+            return { success: true };
+        });
+
+        this.methods.register('fs.createDirectory', {
+            description: 'Create a folder, including missing parents',
+            params: { uri: uriParam },
+            result: '{ success }',
+            tier: 'edit'
+        }, async params => {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.parse(params.uri));
+            return { success: true };
+        });
+
+        this.methods.register('fs.readDirectory', {
+            description: 'List the entries of a folder',
+            params: { uri: uriParam },
+            result: 'Array of { name, type }'
+        }, async params => {
+            const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.parse(params.uri));
+            return entries.map(([name, type]) => ({ name, type }));
+        });
+
+        this.methods.register('fs.stat', {
+            description: 'Get metadata of a file or folder',
+            params: { uri: uriParam },
+            result: '{ type, ctime, mtime, size }'
+        }, async params => {
+            const stat = await vscode.workspace.fs.stat(vscode.Uri.parse(params.uri));
+            return {
+                type: stat.type,
+                ctime: stat.ctime,
+                mtime: stat.mtime,
+                size: stat.size
+            };
+        });
     }
 
-    // Languages API Handlers (Diagnostics)
-    private async handleLanguagesRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'createDiagnosticCollection':
-                const name = params.name || 'default';
-                if (!this.diagnosticCollections.has(name)) {
-                    this.diagnosticCollections.set(name, vscode.languages.createDiagnosticCollection(name));
-                }
-                return { success: true, name };
+    /**
+     * Encoding of binary content sent to a client, from the request or the client's capabilities
+     */
+    private byteEncoding(params: any, context: RequestContext): ByteEncoding {
+        return params.encoding ?? (context.client?.capabilities.has('base64') ? 'base64' : 'array');
+    }
 
-            case 'setDiagnostics':
-                const collection = this.diagnosticCollections.get(params.name || 'default');
-                if (!collection) {
-                    throw new Error(`Diagnostic collection not found: ${params.name}`);
-                }
+    // Languages API Handlers (Diagnostics)
+    private registerLanguagesMethods(): void {
+        const nameParam: ParamSchema = { type: 'string', description: "Collection name, defaults to 'default'" };
+
+        this.methods.register('languages.createDiagnosticCollection', {
+            description: 'Create a diagnostic collection, if it does not exist yet',
+            params: {
+                name: nameParam,
+                keepAlive: { type: 'boolean', description: 'Keep the collection after the client disconnects' }
+            },
+            result: '{ success, name }'
+        }, (params, context) => {
+            const name = params.name || 'default';
+            if (!this.diagnosticCollections.has(name)) {
+                this.diagnosticCollections.set(name, vscode.languages.createDiagnosticCollection(name));
+                this.claimResource('diagnosticCollection', name, context, params.keepAlive);
+            } else if (params.keepAlive) {
+                this.releaseResource('diagnosticCollection', name);
+            } else {
+                this.shareDiagnosticCollection(name, context);
+            }
+            return { success: true, name };
+        });
 
-                const uri = vscode.Uri.parse(params.uri);
-                const diagnostics = params.diagnostics.map((d: any) => {
-                    const range = new vscode.Range(
-                        d.range.start.line,
-                        d.range.start.character,
-                        d.range.end.line,
-                        d.range.end.character
-                    );
-                    const severity = this.parseDiagnosticSeverity(d.severity);
-                    const diagnostic = new vscode.Diagnostic(range, d.message, severity);
-                    
-                    if (d.source) {
-                        diagnostic.source = d.source;
-                    }
-                    if (d.code) {
-                        diagnostic.code = d.code;
-                    }
-                    if (d.relatedInformation) {
-                        diagnostic.relatedInformation = d.relatedInformation.map((info: any) => {
-                            return new vscode.DiagnosticRelatedInformation(
-                                new vscode.Location(
-                                    vscode.Uri.parse(info.location.uri),
-                                    new vscode.Range(
-                                        info.location.range.start.line,
-                                        info.location.range.start.character,
-                                        info.location.range.end.line,
-                                        info.location.range.end.character
-                                    )
-                                ),
-                                info.message
-                            );
-                        });
+        this.methods.register('languages.setDiagnostics', {
+            description: 'Replace the diagnostics of a document in a collection',
+            params: {
+                name: nameParam,
+                uri: { type: 'uri', required: true },
+                diagnostics: {
+                    type: 'array',
+                    required: true,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            range: { type: 'range', required: true },
+                            message: { type: 'string', required: true },
+                            severity: { type: ['string', 'integer'], enum: ['error', 'warning', 'information', 'info', 'hint', 0, 1, 2, 3], ignoreCase: true },
+                            source: { type: 'string' },
+                            code: { type: ['string', 'integer'] },
+                            relatedInformation: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        location: {
+                                            type: 'object',
+                                            required: true,
+                                            properties: {
+                                                uri: { type: 'uri', required: true },
+                                                range: { type: 'range', required: true }
+                                            }
+                                        },
+                                        message: { type: 'string', required: true }
+                                    }
+                                }
+                            }
+                        }
                     }
-                    return diagnostic;
-                });
+                }
+            },
+            result: '{ success }'
+        }, (params, context) => this.setDiagnostics(params, context));
+
+        this.methods.register('languages.clearDiagnostics', {
+            description: 'Clear the diagnostics of one document, or of the whole collection',
+            params: {
+                name: nameParam,
+                uri: { type: 'uri', description: 'Document to clear, omit to clear everything' }
+            },
+            result: '{ success }'
+        }, params => {
+            const clearCollection = this.diagnosticCollections.get(params.name || 'default');
+            if (!clearCollection) {
+                throw new NotFoundError(`Diagnostic collection not found: ${params.name}`, { name: params.name });
+            }
+            if (params.uri) {
+                clearCollection.delete(vscode.Uri.parse(params.uri));
+            } else {
+                clearCollection.clear();
+            }
+            return { success: true };
+        });
 
-                collection.set(uri, diagnostics);
-                return { success: true };
+        this.methods.register('languages.disposeDiagnosticCollection', {
+            description: 'Dispose a diagnostic collection',
+            params: { name: nameParam },
+            result: '{ success }'
+        }, params => {
+            const disposeCollection = this.diagnosticCollections.get(params.name || 'default');
+            if (disposeCollection) {
+                disposeCollection.dispose();
+                this.diagnosticCollections.delete(params.name || 'default');
+                this.releaseResource('diagnosticCollection', params.name || 'default');
+            }
+            return { success: true };
+        });
+    }
 
-            case 'clearDiagnostics':
-                const clearCollection = this.diagnosticCollections.get(params.name || 'default');
-                if (!clearCollection) {
-                    throw new Error(`Diagnostic collection not found: ${params.name}`);
-                }
-                if (params.uri) {
-                    clearCollection.delete(vscode.Uri.parse(params.uri));
-                } else {
-                    clearCollection.clear();
+    /**
+     * languages.query.* wrap the vscode.execute*Provider commands, so scripts can
+     * use the installed language servers without building command arguments
+     */
+    private registerLanguageQueryMethods(): void {
+        const documentParams: { [name: string]: ParamSchema } = {
+            uri: { type: 'uri', required: true, description: 'Document to query' }
+        };
+        const positionParams: { [name: string]: ParamSchema } = {
+            ...documentParams,
+            position: { type: 'position', required: true }
+        };
+        const locationQueries: [name: string, command: string, description: string][] = [
+            ['definitions', 'vscode.executeDefinitionProvider', 'Definitions of the symbol at a position'],
+            ['declarations', 'vscode.executeDeclarationProvider', 'Declarations of the symbol at a position'],
+            ['typeDefinitions', 'vscode.executeTypeDefinitionProvider', 'Type definitions of the symbol at a position'],
+            ['implementations', 'vscode.executeImplementationProvider', 'Implementations of the symbol at a position'],
+            ['references', 'vscode.executeReferenceProvider', 'References to the symbol at a position']
+        ];
+        for (const [name, command, description] of locationQueries) {
+            this.methods.register(`languages.query.${name}`, {
+                description,
+                params: positionParams,
+                result: 'Array of tagged Location or LocationLink'
+            }, async (params, context) => serializeValue(
+                await this.queryLanguageFeature(command, context, vscode.Uri.parse(params.uri), toPosition(params.position)) ?? []
+            ));
+        }
+
+        this.methods.register('languages.query.hovers', {
+            description: 'Hover information at a position, one entry per hover provider',
+            params: positionParams,
+            result: 'Array of tagged Hover'
+        }, async (params, context) => serializeValue(await this.queryLanguageFeature(
+            'vscode.executeHoverProvider', context, vscode.Uri.parse(params.uri), toPosition(params.position)
+        ) ?? []));
+
+        this.methods.register('languages.query.documentSymbols', {
+            description: 'Symbols defined in a document',
+            params: documentParams,
+            result: 'Array of tagged DocumentSymbol (nested through children) or SymbolInformation, depending on the provider'
+        }, async (params, context) => serializeValue(await this.queryLanguageFeature(
+            'vscode.executeDocumentSymbolProvider', context, vscode.Uri.parse(params.uri)
+        ) ?? []));
+
+        this.methods.register('languages.query.workspaceSymbols', {
+            description: 'Symbols in the workspace matching a query',
+            params: {
+                query: { type: 'string', required: true, description: 'Symbol name or part of it, empty for all symbols' }
+            },
+            result: 'Array of tagged SymbolInformation'
+        }, async (params, context) => serializeValue(
+            await this.queryLanguageFeature('vscode.executeWorkspaceSymbolProvider', context, params.query) ?? []
+        ));
+
+        this.methods.register('languages.query.callHierarchy', {
+            description: 'Callers and/or callees of the function at a position',
+            params: {
+                ...positionParams,
+                direction: {
+                    type: 'string',
+                    enum: ['incoming', 'outgoing', 'both'],
+                    description: "Which calls to list, defaults to 'both'"
                 }
-                return { success: true };
+            },
+            result: 'Array of { item, incomingCalls?: Array of { from, fromRanges }, outgoingCalls?: Array of { to, fromRanges } }, '
+                + 'items being { name, kind, detail, uri, range, selectionRange, tags }'
+        }, (params, context) => this.queryCallHierarchy(params, context));
+
+        this.methods.register('languages.query.signatureHelp', {
+            description: 'Signatures of the call at a position',
+            params: {
+                ...positionParams,
+                triggerCharacter: { type: 'string', description: "Character that triggered the request, e.g. '('" }
+            },
+            result: '{ signatures, activeSignature, activeParameter }, null if there is no call'
+        }, async (params, context) => serializeValue(await this.queryLanguageFeature(
+            'vscode.executeSignatureHelpProvider',
+            context,
+            vscode.Uri.parse(params.uri),
+            toPosition(params.position),
+            params.triggerCharacter
+        ) ?? null));
+
+        this.methods.register('languages.query.completions', {
+            description: 'Completions at a position',
+            params: {
+                ...positionParams,
+                triggerCharacter: { type: 'string', description: "Character that triggered completion, e.g. '.'" },
+                itemResolveCount: { type: 'integer', minimum: 0, description: 'Number of items to resolve details and documentation for' }
+            },
+            result: 'Tagged CompletionList'
+        }, async (params, context) => serializeValue(await this.queryLanguageFeature(
+            'vscode.executeCompletionItemProvider',
+            context,
+            vscode.Uri.parse(params.uri),
+            toPosition(params.position),
+            params.triggerCharacter,
+            params.itemResolveCount
+        )));
+    }
+
+    private queryLanguageFeature<T>(command: string, context: RequestContext, ...args: any[]): Promise<T | undefined> {
+        return raceCancellation(Promise.resolve(vscode.commands.executeCommand<T | undefined>(command, ...args)), context.token);
+    }
+
+    private async queryCallHierarchy(params: any, context: RequestContext): Promise<any> {
+        const direction = params.direction ?? 'both';
+        const items = await this.queryLanguageFeature<vscode.CallHierarchyItem[]>(
+            'vscode.prepareCallHierarchy', context, vscode.Uri.parse(params.uri), toPosition(params.position)
+        ) ?? [];
+        return Promise.all(items.map(async item => {
+            const result: any = { item: serializeCallHierarchyItem(item) };
+            if (direction !== 'outgoing') {
+                const calls = await this.queryLanguageFeature<vscode.CallHierarchyIncomingCall[]>(
+                    'vscode.provideIncomingCalls', context, item
+                ) ?? [];
+                result.incomingCalls = calls.map(call => ({
+                    from: serializeCallHierarchyItem(call.from),
+                    fromRanges: serializeValue(call.fromRanges)
+                }));
+            }
+            if (direction !== 'incoming') {
+                const calls = await this.queryLanguageFeature<vscode.CallHierarchyOutgoingCall[]>(
+                    'vscode.provideOutgoingCalls', context, item
+                ) ?? [];
+                result.outgoingCalls = calls.map(call => ({
+                    to: serializeCallHierarchyItem(call.to),
+                    fromRanges: serializeValue(call.fromRanges)
+                }));
+            }
+            return result;
+        }));
+    }
 
-            case 'disposeDiagnosticCollection':
-                const disposeCollection = this.diagnosticCollections.get(params.name || 'default');
-                if (disposeCollection) {
-                    disposeCollection.dispose();
-                    this.diagnosticCollections.delete(params.name || 'default');
-                }
-                return { success: true };
+    /**
+     * Collections are shared by name, so once a second client uses one it no
+     * longer belongs to its creator: it lives until disposed explicitly or the
+     * server stops, like a keepAlive collection
+     */
+    private shareDiagnosticCollection(name: string, context: RequestContext): void {
+        if (this.resourceOwners.get(`diagnosticCollection:${name}`) !== context.client) {
+            this.releaseResource('diagnosticCollection', name);
+        }
+    }
 
-            default:
-                throw new Error(`Unknown languages method: languages.${method}`);
+    private setDiagnostics(params: any, context: RequestContext): any {
+        const collection = this.diagnosticCollections.get(params.name || 'default');
+        if (!collection) {
+            throw new NotFoundError(`Diagnostic collection not found: ${params.name}`, { name: params.name });
         }
+        this.shareDiagnosticCollection(params.name || 'default', context);
+
+        const uri = vscode.Uri.parse(params.uri);
+        const diagnostics = params.diagnostics.map((d: any) => {
+            const range = new vscode.Range(
+                d.range.start.line,
+                d.range.start.character,
+                d.range.end.line,
+                d.range.end.character
+            );
+            const severity = this.parseDiagnosticSeverity(d.severity);
+            const diagnostic = new vscode.Diagnostic(range, d.message, severity);
+            
+            if (d.source) {
+                diagnostic.source = d.source;
+            }
+            if (d.code) {
+                diagnostic.code = d.code;
+            }
+            if (d.relatedInformation) {
+                diagnostic.relatedInformation = d.relatedInformation.map((info: any) => {
+                    return new vscode.DiagnosticRelatedInformation(
+                        new vscode.Location(
+                            vscode.Uri.parse(info.location.uri),
+                            new vscode.Range(
+                                info.location.range.start.line,
+                                info.location.range.start.character,
+                                info.location.range.end.line,
+                                info.location.range.end.character
+                            )
+                        ),
+                        info.message
+                    );
+                });
+            }
+            return diagnostic;
+        });
+
+        collection.set(uri, diagnostics);
+        return { success: true };
     }
 
     private parseDiagnosticSeverity(severity: string | number): vscode.DiagnosticSeverity {
@@ -1366,6 +3193,36 @@ export class VSCodeServer {
         };
     }
 
+    private watchConfiguration(
+        client: ClientConnection | undefined,
+        sections: (string | ConfigurationSection)[]
+    ): { success: boolean; sections: ConfigurationSection[] } {
+        if (!client) {
+            throw new NotFoundError('Client not found');
+        }
+        for (const section of sections.map(toConfigurationSection)) {
+            client.configurationSections.set(configurationSectionKey(section), section);
+        }
+        return { success: true, sections: Array.from(client.configurationSections.values()) };
+    }
+
+    private unwatchConfiguration(
+        client: ClientConnection | undefined,
+        sections: (string | ConfigurationSection)[] | undefined
+    ): { success: boolean; sections: ConfigurationSection[] } {
+        if (!client) {
+            throw new NotFoundError('Client not found');
+        }
+        if (sections === undefined) {
+            client.configurationSections.clear();
+        } else {
+            for (const section of sections.map(toConfigurationSection)) {
+                client.configurationSections.delete(configurationSectionKey(section));
+            }
+        }
+        return { success: true, sections: Array.from(client.configurationSections.values()) };
+    }
+
     private async updateConfiguration(
         section: string,
         value: any,
@@ -1393,11 +3250,11 @@ export class VSCodeServer {
     }
 
     // Status Bar Item Handlers
-    private createStatusBarItem(params: any): any {
+    private createStatusBarItem(params: any, context: RequestContext): any {
         const { id, alignment, priority } = params;
         
         if (this.statusBarItems.has(id)) {
-            throw new Error(`Status bar item already exists: ${id}`);
+            throw new InvalidParamsError(`Status bar item already exists: ${id}`, { field: 'id', id });
         }
 
         const alignmentValue = alignment === 'right' 
@@ -1406,6 +3263,7 @@ export class VSCodeServer {
         
         const item = vscode.window.createStatusBarItem(alignmentValue, priority);
         this.statusBarItems.set(id, item);
+        this.claimResource('statusBarItem', id, context, params.keepAlive);
 
         return { success: true, id };
     }
@@ -1415,7 +3273,7 @@ export class VSCodeServer {
         
         const item = this.statusBarItems.get(id);
         if (!item) {
-            throw new Error(`Status bar item not found: ${id}`);
+            throw new NotFoundError(`Status bar item not found: ${id}`, { id });
         }
 
         if (text !== undefined) {
@@ -1449,17 +3307,18 @@ export class VSCodeServer {
         
         const item = this.statusBarItems.get(id);
         if (!item) {
-            throw new Error(`Status bar item not found: ${id}`);
+            throw new NotFoundError(`Status bar item not found: ${id}`, { id });
         }
 
         item.dispose();
         this.statusBarItems.delete(id);
+        this.releaseResource('statusBarItem', id);
 
         return { success: true };
     }
 
     // Progress Indicator Handler
-    private async withProgress(params: any): Promise<any> {
+    private async withProgress(params: any, context: RequestContext): Promise<any> {
         const { location, title, cancellable, task } = params;
         
         const locationValue = this.parseProgressLocation(location);
@@ -1484,14 +3343,18 @@ export class VSCodeServer {
                     // Store the cancellation token
                     const tokenSource = new vscode.CancellationTokenSource();
                     this.progressTokens.set(progressId, tokenSource);
+                    this.claimResource('progress', progressId, context, params.keepAlive);
                     
                     // Set up a promise that will be resolved when the progress is complete
                     return new Promise((resolve, reject) => {
                         // Listen for progress updates
                         const checkInterval = setInterval(() => {
-                            if (token.isCancellationRequested || tokenSource.token.isCancellationRequested) {
+                            if (token.isCancellationRequested ||
+                                tokenSource.token.isCancellationRequested ||
+                                context.token?.isCancellationRequested) {
                                 clearInterval(checkInterval);
                                 this.progressTokens.delete(progressId);
+                                this.releaseResource('progress', progressId);
                                 reject(new Error('Progress cancelled'));
                             }
                         }, 100);
@@ -1500,11 +3363,13 @@ export class VSCodeServer {
                         (this.progressTokens.get(progressId) as any).resolve = (result: any) => {
                             clearInterval(checkInterval);
                             this.progressTokens.delete(progressId);
+                            this.releaseResource('progress', progressId);
                             resolve(result);
                         };
                         (this.progressTokens.get(progressId) as any).reject = (error: any) => {
                             clearInterval(checkInterval);
                             this.progressTokens.delete(progressId);
+                            this.releaseResource('progress', progressId);
                             reject(error);
                         };
                         (this.progressTokens.get(progressId) as any).report = (update: any) => {
@@ -1532,23 +3397,43 @@ export class VSCodeServer {
     }
 
     // Terminal Handlers
-    private async handleTerminalRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'sendText':
-                return this.terminalSendText(params);
-
-            case 'show':
-                return this.terminalShow(params);
-
-            case 'hide':
-                return this.terminalHide(params);
+    private registerTerminalMethods(): void {
+        const terminalIdParam: ParamSchema = { type: 'string', required: true, description: 'Id returned by window.createTerminal' };
+
+        this.methods.register('terminal.sendText', {
+            description: 'Send text to a terminal',
+            params: {
+                terminalId: terminalIdParam,
+                text: { type: 'string', required: true },
+                addNewLine: { type: 'boolean', description: 'Append a newline, defaults to true' }
+            },
+            result: '{ success }',
+            tier: 'external'
+        }, params => this.terminalSendText(params));
+
+        this.methods.register('terminal.show', {
+            description: 'Show a terminal',
+            params: {
+                terminalId: terminalIdParam,
+                preserveFocus: { type: 'boolean', description: 'Keep focus where it is, defaults to true' }
+            },
+            result: '{ success }',
+            tier: 'external'
+        }, params => this.terminalShow(params));
 
-            case 'dispose':
-                return this.terminalDispose(params);
+        this.methods.register('terminal.hide', {
+            description: 'Hide the terminal panel if it shows this terminal',
+            params: { terminalId: terminalIdParam },
+            result: '{ success }',
+            tier: 'edit'
+        }, params => this.terminalHide(params));
 
-            default:
-                throw new Error(`Unknown terminal method: terminal.${method}`);
-        }
+        this.methods.register('terminal.dispose', {
+            description: 'Close a terminal',
+            params: { terminalId: terminalIdParam },
+            result: '{ success }',
+            tier: 'edit'
+        }, params => this.terminalDispose(params));
     }
 
     private terminalSendText(params: any): any {
@@ -1556,7 +3441,7 @@ export class VSCodeServer {
         const terminal = this.terminals.get(terminalId);
 
         if (!terminal) {
-            throw new Error(`Terminal not found: ${terminalId}`);
+            throw new NotFoundError(`Terminal not found: ${terminalId}`, { terminalId });
         }
 
         terminal.sendText(text, addNewLine);
@@ -1568,7 +3453,7 @@ export class VSCodeServer {
         const terminal = this.terminals.get(terminalId);
 
         if (!terminal) {
-            throw new Error(`Terminal not found: ${terminalId}`);
+            throw new NotFoundError(`Terminal not found: ${terminalId}`, { terminalId });
         }
 
         terminal.show(preserveFocus);
@@ -1580,7 +3465,7 @@ export class VSCodeServer {
         const terminal = this.terminals.get(terminalId);
 
         if (!terminal) {
-            throw new Error(`Terminal not found: ${terminalId}`);
+            throw new NotFoundError(`Terminal not found: ${terminalId}`, { terminalId });
         }
 
         terminal.hide();
@@ -1592,16 +3477,17 @@ export class VSCodeServer {
         const terminal = this.terminals.get(terminalId);
 
         if (!terminal) {
-            throw new Error(`Terminal not found: ${terminalId}`);
+            throw new NotFoundError(`Terminal not found: ${terminalId}`, { terminalId });
         }
 
         terminal.dispose();
         this.terminals.delete(terminalId);
+        this.releaseResource('terminal', terminalId);
         return { success: true };
     }
 
     // File System Watcher Handlers
-    private createFileSystemWatcher(params: any): any {
+    private createFileSystemWatcher(params: any, context: RequestContext): any {
         const { globPattern, ignoreCreateEvents, ignoreChangeEvents, ignoreDeleteEvents } = params;
         const watcherId = `watcher-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -1620,7 +3506,7 @@ export class VSCodeServer {
             disposables.push(watcher.onDidCreate(uri => {
                 this.broadcastEvent(`watcher.${watcherId}.onCreate`, {
                     uri: uri.toString()
-                });
+                }, { uri, id: watcherId });
             }));
         }
 
@@ -1628,7 +3514,7 @@ export class VSCodeServer {
             disposables.push(watcher.onDidChange(uri => {
                 this.broadcastEvent(`watcher.${watcherId}.onChange`, {
                     uri: uri.toString()
-                });
+                }, { uri, id: watcherId });
             }));
         }
 
@@ -1636,13 +3522,14 @@ export class VSCodeServer {
             disposables.push(watcher.onDidDelete(uri => {
                 this.broadcastEvent(`watcher.${watcherId}.onDelete`, {
                     uri: uri.toString()
-                });
+                }, { uri, id: watcherId });
             }));
         }
 
         // Store the watcher state
         const watcherState = new FileSystemWatcherState(watcher, disposables);
         this.fileWatchers.set(watcherId, watcherState);
+        this.claimResource('fileWatcher', watcherId, context, params.keepAlive);
         return { watcherId };
     }
 
@@ -1651,24 +3538,26 @@ export class VSCodeServer {
         const watcherState = this.fileWatchers.get(watcherId);
 
         if (!watcherState) {
-            throw new Error(`File watcher not found: ${watcherId}`);
+            throw new NotFoundError(`File watcher not found: ${watcherId}`, { watcherId });
         }
 
         // Dispose the watcher and all its event listeners
         watcherState.dispose();
         this.fileWatchers.delete(watcherId);
+        this.releaseResource('fileWatcher', watcherId);
         return { success: true };
     }
 
     // Workspace Search and Path Handlers
-    private async findFiles(params: any): Promise<any> {
+    private async findFiles(params: any, token?: vscode.CancellationToken): Promise<any> {
         const { include, exclude, maxResults } = params;
         
         try {
             const files = await vscode.workspace.findFiles(
                 include,
                 exclude === null ? null : (exclude || undefined),
-                maxResults || undefined
+                maxResults || undefined,
+                token
             );
             
             return {
@@ -1683,7 +3572,7 @@ export class VSCodeServer {
         const { uri } = params;
         
         if (!uri) {
-            throw new Error('URI is required for getWorkspaceFolder');
+            throw new InvalidParamsError('URI is required for getWorkspaceFolder', { field: 'uri' });
         }
 
         const parsedUri = vscode.Uri.parse(uri);
@@ -1706,7 +3595,7 @@ export class VSCodeServer {
         const { pathOrUri, includeWorkspaceFolder } = params;
         
         if (!pathOrUri) {
-            throw new Error('Path or URI is required for asRelativePath');
+            throw new InvalidParamsError('Path or URI is required for asRelativePath', { field: 'pathOrUri' });
         }
 
         const relativePath = vscode.workspace.asRelativePath(
@@ -1720,6 +3609,19 @@ export class VSCodeServer {
     private async applyWorkspaceEdit(params: any): Promise<any> {
         const edit = new vscode.WorkspaceEdit();
 
+        // Open documents with an expected version first, then check every version
+        // without yielding so none can change between the checks and applyEdit.
+        // VS Code also rejects the edit if a document changes while it is applied.
+        const versioned: [vscode.TextDocument, number][] = [];
+        for (const docChange of params.documentChanges ?? []) {
+            if (docChange.version !== undefined && docChange.version !== null) {
+                versioned.push([await vscode.workspace.openTextDocument(vscode.Uri.parse(docChange.uri)), docChange.version]);
+            }
+        }
+        for (const [document, version] of versioned) {
+            checkDocumentVersion(document, version);
+        }
+
         // Process document changes (text edits)
         if (params.documentChanges && Array.isArray(params.documentChanges)) {
             for (const docChange of params.documentChanges) {
@@ -1776,7 +3678,16 @@ export class VSCodeServer {
 
         // Apply the edit
         const success = await vscode.workspace.applyEdit(edit);
-        return { success };
+
+        const versions: { [uri: string]: number } = {};
+        for (const docChange of params.documentChanges ?? []) {
+            const uri = vscode.Uri.parse(docChange.uri).toString();
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+            if (document) {
+                versions[docChange.uri] = document.version;
+            }
+        }
+        return { success, versions };
     }
 
     // Tab Groups Handlers
@@ -1827,14 +3738,14 @@ export class VSCodeServer {
         const groups = vscode.window.tabGroups.all;
 
         if (groupId >= groups.length) {
-            throw new Error(`Tab group not found: ${groupId}`);
+            throw new NotFoundError(`Tab group not found: ${groupId}`, { groupId });
         }
 
         const group = groups[groupId];
         const tab = group.tabs.find(t => t.label === tabLabel);
 
         if (!tab) {
-            throw new Error(`Tab not found: ${tabLabel}`);
+            throw new NotFoundError(`Tab not found: ${tabLabel}`, { groupId, tabLabel });
         }
 
         const success = await vscode.window.tabGroups.close(tab, params.preserveFocus);
@@ -1846,7 +3757,7 @@ export class VSCodeServer {
         const groups = vscode.window.tabGroups.all;
 
         if (groupId >= groups.length) {
-            throw new Error(`Tab group not found: ${groupId}`);
+            throw new NotFoundError(`Tab group not found: ${groupId}`, { groupId });
         }
 
         const group = groups[groupId];
@@ -1854,73 +3765,96 @@ export class VSCodeServer {
         return { success };
     }
 
-    private async handleLanguageModelRequest(method: string, params: any): Promise<any> {
-        switch (method) {
-            case 'selectChatModels': {
-                const selector = params.selector || {};
-                const models = await vscode.lm.selectChatModels(selector);
-                
-                return models.map(model => ({
-                    id: model.id,
-                    name: model.name,
-                    vendor: model.vendor,
-                    family: model.family,
-                    version: model.version,
-                    maxInputTokens: model.maxInputTokens
-                }));
-            }
+    private registerLanguageModelMethods(): void {
+        const modelIdParam: ParamSchema = { type: 'string', required: true, description: 'Id returned by lm.selectChatModels' };
 
-            case 'sendRequest': {
-                const { modelId, messages, options = {} } = params;
-                
-                // Find the model
-                const models = await vscode.lm.selectChatModels({ id: modelId });
-                if (models.length === 0) {
-                    throw new Error(`Language model not found: ${modelId}`);
-                }
-                const model = models[0];
-
-                // Convert messages to LanguageModelChatMessage objects
-                const chatMessages = messages.map((msg: any) => {
-                    if (msg.role === 'user') {
-                        return vscode.LanguageModelChatMessage.User(msg.content);
-                    } else if (msg.role === 'assistant') {
-                        return vscode.LanguageModelChatMessage.Assistant(msg.content);
-                    } else {
-                        throw new Error(`Unknown message role: ${msg.role}`);
-                    }
-                });
+        this.methods.register('lm.selectChatModels', {
+            description: 'List the chat models matching a selector',
+            params: {
+                selector: { type: 'object', description: 'LanguageModelChatSelector (vendor, family, version, id)' }
+            },
+            result: 'Array of { id, name, vendor, family, version, maxInputTokens }'
+        }, async params => {
+            const selector = params.selector || {};
+            const models = await vscode.lm.selectChatModels(selector);
+            
+            return models.map(model => ({
+                id: model.id,
+                name: model.name,
+                vendor: model.vendor,
+                family: model.family,
+                version: model.version,
+                maxInputTokens: model.maxInputTokens
+            }));
+        });
 
-                // Send request and collect response
-                const response = await model.sendRequest(chatMessages, options);
-                const textParts: string[] = [];
-                
-                for await (const fragment of response.text) {
-                    textParts.push(fragment);
+        this.methods.register('lm.sendRequest', {
+            description: 'Send a chat request to a language model and collect the full response',
+            params: {
+                modelId: modelIdParam,
+                messages: {
+                    type: 'array',
+                    required: true,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            role: { type: 'string', required: true, enum: ['user', 'assistant'] },
+                            content: { type: 'string', required: true }
+                        }
+                    }
+                },
+                options: { type: 'object', description: 'LanguageModelChatRequestOptions (justification, modelOptions)' }
+            },
+            result: '{ text, parts }',
+            tier: 'external'
+        }, async (params, context) => {
+            const { modelId, messages, options = {} } = params;
+            const model = await this.findChatModel(modelId);
+
+            // Convert messages to LanguageModelChatMessage objects
+            const chatMessages = messages.map((msg: any) => {
+                if (msg.role === 'user') {
+                    return vscode.LanguageModelChatMessage.User(msg.content);
+                } else if (msg.role === 'assistant') {
+                    return vscode.LanguageModelChatMessage.Assistant(msg.content);
+                } else {
+                    throw new InvalidParamsError(`Unknown message role: ${msg.role}`, { field: 'messages', role: msg.role });
                 }
+            });
 
-                return {
-                    text: textParts.join(''),
-                    parts: textParts
-                };
+            // Send request and collect response
+            const response = await model.sendRequest(chatMessages, options, context.token);
+            const textParts: string[] = [];
+            
+            for await (const fragment of response.text) {
+                textParts.push(fragment);
             }
 
-            case 'countTokens': {
-                const { modelId, text } = params;
-                
-                // Find the model
-                const models = await vscode.lm.selectChatModels({ id: modelId });
-                if (models.length === 0) {
-                    throw new Error(`Language model not found: ${modelId}`);
-                }
-                const model = models[0];
+            return {
+                text: textParts.join(''),
+                parts: textParts
+            };
+        });
 
-                return await model.countTokens(text);
-            }
+        this.methods.register('lm.countTokens', {
+            description: 'Count the tokens of a text for a language model',
+            params: {
+                modelId: modelIdParam,
+                text: { type: 'string', required: true }
+            },
+            result: 'Number of tokens'
+        }, async (params, context) => {
+            const model = await this.findChatModel(params.modelId);
+            return await model.countTokens(params.text, context.token);
+        });
+    }
 
-            default:
-                throw new Error(`Unknown language model method: ${method}`);
+    private async findChatModel(modelId: string): Promise<vscode.LanguageModelChat> {
+        const models = await vscode.lm.selectChatModels({ id: modelId });
+        if (models.length === 0) {
+            throw new NotFoundError(`Language model not found: ${modelId}`, { modelId });
         }
+        return models[0];
     }
 
     private setupEventListeners(): void {
@@ -1931,7 +3865,7 @@ export class VSCodeServer {
                     uri: doc.uri.toString(),
                     languageId: doc.languageId,
                     fileName: doc.fileName
-                });
+                }, documentSubject(doc));
             })
         );
 
@@ -1940,6 +3874,13 @@ export class VSCodeServer {
                 this.broadcastEvent('workspace.onDidCloseTextDocument', {
                     uri: doc.uri.toString(),
                     fileName: doc.fileName
+                }, documentSubject(doc));
+
+                const uri = doc.uri.toString();
+                this.clients.forEach(client => {
+                    if (client.trackedDocuments.untrack(uri)) {
+                        client.sendEvent(DOCUMENT_UNTRACKED_EVENT, { uri, reason: 'closed' });
+                    }
                 });
             })
         );
@@ -1949,7 +3890,7 @@ export class VSCodeServer {
                 this.broadcastEvent('workspace.onDidSaveTextDocument', {
                     uri: doc.uri.toString(),
                     fileName: doc.fileName
-                });
+                }, documentSubject(doc));
             })
         );
 
@@ -1957,13 +3898,17 @@ export class VSCodeServer {
             vscode.workspace.onDidChangeTextDocument(e => {
                 this.broadcastEvent('workspace.onDidChangeTextDocument', {
                     uri: e.document.uri.toString(),
-                    contentChanges: e.contentChanges.map(change => ({
-                        range: {
-                            start: { line: change.range.start.line, character: change.range.start.character },
-                            end: { line: change.range.end.line, character: change.range.end.character }
-                        },
-                        text: change.text
-                    }))
+                    version: e.document.version,
+                    isDirty: e.document.isDirty,
+                    reason: serializeChangeReason(e.reason),
+                    contentChanges: e.contentChanges.map(serializeContentChange)
+                }, documentSubject(e.document));
+
+                this.clients.forEach(client => {
+                    const delta = client.trackedDocuments.delta(e);
+                    if (delta) {
+                        client.sendEvent(DOCUMENT_DELTA_EVENT, delta);
+                    }
                 });
             })
         );
@@ -1975,7 +3920,7 @@ export class VSCodeServer {
                     uri: editor.document.uri.toString(),
                     languageId: editor.document.languageId,
                     fileName: editor.document.fileName
-                } : null);
+                } : null, editor ? documentSubject(editor.document) : undefined);
             })
         );
 
@@ -1989,7 +3934,7 @@ export class VSCodeServer {
                         active: { line: sel.active.line, character: sel.active.character },
                         anchor: { line: sel.anchor.line, character: sel.anchor.character }
                     }))
-                });
+                }, documentSubject(e.textEditor.document));
             })
         );
 
@@ -2001,7 +3946,7 @@ export class VSCodeServer {
                         uri: e.document.uri.toString(),
                         languageId: e.document.languageId
                     }))
-                });
+                }, { uri: editors.map(e => e.document.uri) });
             })
         );
 
@@ -2040,7 +3985,7 @@ export class VSCodeServer {
                         start: { line: range.start.line, character: range.start.character },
                         end: { line: range.end.line, character: range.end.character }
                     }))
-                });
+                }, documentSubject(e.textEditor.document));
             })
         );
 
@@ -2054,7 +3999,7 @@ export class VSCodeServer {
                         cursorStyle: e.options.cursorStyle,
                         lineNumbers: e.options.lineNumbers
                     }
-                });
+                }, documentSubject(e.textEditor.document));
             })
         );
 
@@ -2063,7 +4008,7 @@ export class VSCodeServer {
                 this.broadcastEvent('window.onDidChangeTextEditorViewColumn', {
                     uri: e.textEditor.document.uri.toString(),
                     viewColumn: e.viewColumn
-                });
+                }, documentSubject(e.textEditor.document));
             })
         );
 
@@ -2082,15 +4027,15 @@ export class VSCodeServer {
                 this.broadcastEvent('workspace.onDidChangeWorkspaceFolders', {
                     added: e.added.map(f => ({ uri: f.uri.toString(), name: f.name })),
                     removed: e.removed.map(f => ({ uri: f.uri.toString(), name: f.name }))
-                });
+                }, { uri: [...e.added, ...e.removed].map(f => f.uri) });
             })
         );
 
         this.eventDisposables.push(
             vscode.workspace.onDidChangeConfiguration(e => {
-                this.broadcastEvent('workspace.onDidChangeConfiguration', {
-                    affectsConfiguration: (section: string) => e.affectsConfiguration(section)
-                });
+                // The event can only be asked about given sections, which differ per client and
+                // may change before a replay, so it is logged as is and asked once per delivery
+                this.broadcastEvent('workspace.onDidChangeConfiguration', e);
             })
         );
 
@@ -2099,7 +4044,7 @@ export class VSCodeServer {
             vscode.workspace.onDidCreateFiles(e => {
                 this.broadcastEvent('workspace.onDidCreateFiles', {
                     files: e.files.map(f => ({ uri: f.toString() }))
-                });
+                }, { uri: e.files });
             })
         );
 
@@ -2107,7 +4052,7 @@ export class VSCodeServer {
             vscode.workspace.onDidDeleteFiles(e => {
                 this.broadcastEvent('workspace.onDidDeleteFiles', {
                     files: e.files.map(f => ({ uri: f.toString() }))
-                });
+                }, { uri: e.files });
             })
         );
 
@@ -2118,7 +4063,7 @@ export class VSCodeServer {
                         oldUri: f.oldUri.toString(),
                         newUri: f.newUri.toString()
                     }))
-                });
+                }, { uri: e.files.flatMap(f => [f.oldUri, f.newUri]) });
             })
         );
 
@@ -0,0 +1,355 @@
+import * as vscode from 'vscode';
+import { compileGlob } from './glob';
+
+/**
+ * Server-side filter of a subscription, every given field must match
+ */
+export interface EventFilter {
+    /** Glob matched against the path and the workspace-relative path of the event's document or file */
+    uri?: string;
+    languageId?: string | string[];
+    scheme?: string | string[];
+    /** Id of the file system watcher or webview panel the event belongs to */
+    id?: string;
+}
+
+/**
+ * What an event is about, the values subscription filters are matched against.
+ * Events without a subject only match subscriptions without a filter.
+ */
+export interface EventSubject {
+    /** Document or file(s) of the event, events about several files match if any of them does */
+    uri?: vscode.Uri | readonly vscode.Uri[];
+    languageId?: string;
+    id?: string;
+}
+
+/**
+ * Delivery timing of a subscription. Without debounce or throttle events are sent as they fire.
+ */
+export interface SubscriptionOptions {
+    /** Hold events until none has fired for this many milliseconds */
+    debounce?: number;
+    /** Send held events at most once per this many milliseconds */
+    throttle?: number;
+    /**
+     * Merge held events of the same name about the same document into one: the latest
+     * payload wins, with the contentChanges of all of them concatenated in order
+     */
+    coalesce?: boolean;
+}
+
+export interface Subscription {
+    id: string;
+    /** Event name or pattern, see {@link matchesEventName} */
+    event: string;
+    filter?: EventFilter;
+    options?: SubscriptionOptions;
+}
+
+/**
+ * An event as broadcast by the server, numbered in the order events fired
+ */
+export interface StampedEvent {
+    /** Position in the server's event log, increasing by one per event */
+    sequence: number;
+    /** Server instance that numbered the event, sequence numbers restart with every instance */
+    instanceId: string;
+    /** Milliseconds since the epoch */
+    timestamp: number;
+    event: string;
+    data: any;
+    subject?: EventSubject;
+}
+
+export type EventDelivery = (event: StampedEvent, subscriptionId: string) => void;
+
+interface HeldEvent {
+    /** Event name and document, events with the same key are coalesced */
+    key: string;
+    stamped: StampedEvent;
+}
+
+interface CompiledSubscription extends Subscription {
+    /** Identity of event, filter and options, to reuse an existing subscription instead of duplicating it */
+    key: string;
+    eventPattern?: RegExp;
+    uriPattern?: RegExp;
+    held: HeldEvent[];
+    heldSince: number;
+    lastDelivery: number;
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Event subscriptions of a single client. An event can have several
+ * independent subscriptions, each with its own filter, timing and id.
+ */
+export class SubscriptionSet {
+    private subscriptions: Map<string, CompiledSubscription> = new Map();
+    private nextId = 1;
+
+    constructor(private readonly deliver: EventDelivery) {}
+
+    /**
+     * Subscribe to an event, returning the existing subscription if one has the same filter and options
+     *
+     * @throws InvalidParamsError if the event pattern or the uri filter is not a valid glob
+     */
+    add(event: string, filter?: EventFilter, options?: SubscriptionOptions): Subscription {
+        const key = JSON.stringify([event, filter ?? null, options ?? null]);
+        const existing = Array.from(this.subscriptions.values()).find(subscription => subscription.key === key);
+        if (existing) {
+            return toSubscription(existing);
+        }
+
+        const subscription: CompiledSubscription = {
+            id: `sub-${this.nextId++}`,
+            event,
+            filter,
+            options,
+            key,
+            eventPattern: isEventPattern(event) ? compileEventPattern(event) : undefined,
+            uriPattern: filter?.uri ? compileGlob(filter.uri, 'filter.uri') : undefined,
+            held: [],
+            heldSince: 0,
+            lastDelivery: 0
+        };
+        this.subscriptions.set(subscription.id, subscription);
+        return toSubscription(subscription);
+    }
+
+    /**
+     * Remove a subscription, discarding events it still holds
+     *
+     * @returns True if the subscription existed
+     */
+    remove(id: string): boolean {
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            return false;
+        }
+        clearTimeout(subscription.timer);
+        return this.subscriptions.delete(id);
+    }
+
+    /**
+     * Remove every subscription to an event, or to a pattern when given the same pattern
+     *
+     * @returns The number of subscriptions removed
+     */
+    removeEvent(event: string): number {
+        let removed = 0;
+        for (const subscription of Array.from(this.subscriptions.values())) {
+            if (subscription.event === event) {
+                this.remove(subscription.id);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Remove all subscriptions, e.g. when the client disconnects
+     */
+    clear(): void {
+        for (const id of Array.from(this.subscriptions.keys())) {
+            this.remove(id);
+        }
+    }
+
+    list(): Subscription[] {
+        return Array.from(this.subscriptions.values()).map(toSubscription);
+    }
+
+    /**
+     * Names of the subscribed events, each listed once
+     */
+    events(): string[] {
+        return Array.from(new Set(Array.from(this.subscriptions.values()).map(subscription => subscription.event)));
+    }
+
+    /**
+     * Deliver an event to every subscription it matches, right away or once the subscription's timing allows
+     */
+    dispatch(stamped: StampedEvent): void {
+        for (const subscription of Array.from(this.subscriptions.values())) {
+            if (!matchesEvent(subscription, stamped.event) || !matchesFilter(subscription, stamped.subject)) {
+                continue;
+            }
+            if (subscription.options?.debounce || subscription.options?.throttle) {
+                this.hold(subscription, stamped);
+            } else {
+                this.deliver(stamped, subscription.id);
+            }
+        }
+    }
+
+    /**
+     * Deliver past events matching a subscription to it right away, regardless of its timing options
+     *
+     * @returns The number of events delivered
+     */
+    replay(id: string, events: readonly StampedEvent[]): number {
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            return 0;
+        }
+        let replayed = 0;
+        for (const stamped of events) {
+            if (matchesEvent(subscription, stamped.event) && matchesFilter(subscription, stamped.subject)) {
+                this.deliver(stamped, subscription.id);
+                replayed++;
+            }
+        }
+        return replayed;
+    }
+
+    private hold(subscription: CompiledSubscription, stamped: StampedEvent): void {
+        const now = Date.now();
+        const key = `${stamped.event}\n${subjectKey(stamped.subject)}`;
+        const previous = subscription.options?.coalesce
+            ? subscription.held.findIndex(held => held.key === key)
+            : -1;
+        if (previous !== -1) {
+            // The merged event carries the newer sequence number, so it moves to the end to keep
+            // held events in sequence order
+            const [older] = subscription.held.splice(previous, 1);
+            subscription.held.push({ key, stamped: { ...stamped, data: mergeEventData(older.stamped.data, stamped.data) } });
+        } else {
+            if (subscription.held.length === 0) {
+                subscription.heldSince = now;
+            }
+            subscription.held.push({ key, stamped });
+        }
+
+        const { debounce = 0, throttle = 0 } = subscription.options!;
+        let due: number;
+        if (debounce > 0) {
+            // Every event pushes a debounce back, a throttle caps how long that can go on
+            due = now + debounce;
+            if (throttle > 0) {
+                due = Math.min(due, subscription.heldSince + throttle);
+            }
+        } else if (subscription.timer) {
+            return;
+        } else {
+            due = Math.max(now, subscription.lastDelivery + throttle);
+        }
+
+        clearTimeout(subscription.timer);
+        subscription.timer = undefined;
+        if (due <= now) {
+            this.flush(subscription);
+        } else {
+            subscription.timer = setTimeout(() => this.flush(subscription), due - now);
+        }
+    }
+
+    private flush(subscription: CompiledSubscription): void {
+        clearTimeout(subscription.timer);
+        subscription.timer = undefined;
+        subscription.lastDelivery = Date.now();
+        const held = subscription.held;
+        subscription.held = [];
+        for (const { stamped } of held) {
+            this.deliver(stamped, subscription.id);
+        }
+    }
+}
+
+/**
+ * Whether an event name matches a subscribed name or pattern. In patterns '*' stands for one
+ * dot-separated segment and '**' for any number of them, e.g. 'workspace.*', 'watcher.*.onChange'
+ * or 'watcher.**'.
+ *
+ * @throws InvalidParamsError if the pattern is not a valid glob
+ */
+export function matchesEventName(pattern: string, event: string): boolean {
+    return isEventPattern(pattern) ? compileEventPattern(pattern).test(toSegmentPath(event)) : pattern === event;
+}
+
+function isEventPattern(event: string): boolean {
+    return event.includes('*');
+}
+
+function compileEventPattern(pattern: string): RegExp {
+    // Segments become path segments, so the glob rules for '*' and '**' apply as they do for paths
+    return compileGlob(toSegmentPath(pattern), 'event');
+}
+
+function toSegmentPath(event: string): string {
+    return event.replace(/\./g, '/');
+}
+
+function matchesEvent(subscription: CompiledSubscription, event: string): boolean {
+    return subscription.eventPattern ? subscription.eventPattern.test(toSegmentPath(event)) : subscription.event === event;
+}
+
+function toSubscription({ id, event, filter, options }: CompiledSubscription): Subscription {
+    const subscription: Subscription = { id, event };
+    if (filter) {
+        subscription.filter = filter;
+    }
+    if (options) {
+        subscription.options = options;
+    }
+    return subscription;
+}
+
+function subjectKey(subject: EventSubject | undefined): string {
+    if (subject?.uri instanceof vscode.Uri) {
+        return subject.uri.toString();
+    }
+    return subject?.uri ? subject.uri.map(uri => uri.toString()).join('\n') : subject?.id ?? '';
+}
+
+/**
+ * Merge a newer event payload into an older one: the newer payload wins,
+ * text changes of both are kept in the order they happened
+ */
+function mergeEventData(older: any, newer: any): any {
+    if (Array.isArray(older?.contentChanges) && Array.isArray(newer?.contentChanges)) {
+        return { ...newer, contentChanges: [...older.contentChanges, ...newer.contentChanges] };
+    }
+    return newer;
+}
+
+function matchesFilter(subscription: CompiledSubscription, subject: EventSubject | undefined): boolean {
+    const filter = subscription.filter;
+    if (!filter) {
+        return true;
+    }
+    if (!subject) {
+        return false;
+    }
+    if (filter.id !== undefined && subject.id !== filter.id) {
+        return false;
+    }
+    if (filter.languageId !== undefined && !includes(filter.languageId, subject.languageId)) {
+        return false;
+    }
+    if (filter.uri === undefined && filter.scheme === undefined) {
+        return true;
+    }
+
+    let uris: readonly vscode.Uri[] = [];
+    if (subject.uri instanceof vscode.Uri) {
+        uris = [subject.uri];
+    } else if (subject.uri) {
+        uris = subject.uri;
+    }
+    return uris.some(uri =>
+        (filter.scheme === undefined || includes(filter.scheme, uri.scheme)) &&
+        (subscription.uriPattern === undefined || matchesUriPattern(subscription.uriPattern, uri))
+    );
+}
+
+function matchesUriPattern(pattern: RegExp, uri: vscode.Uri): boolean {
+    // Patterns may be absolute ('/home/me/project/**') or workspace-relative ('src/**/*.py')
+    return pattern.test(uri.path) || pattern.test(vscode.workspace.asRelativePath(uri, false));
+}
+
+function includes(allowed: string | string[], value: string | undefined): boolean {
+    return value !== undefined && (Array.isArray(allowed) ? allowed.includes(value) : allowed === value);
+}
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import * as vscode from 'vscode';
+import { SockpuppetAPI } from '../api';
+
+/**
+ * Send raw data to the server and collect the messages it answers with until it closes the connection
+ */
+function exchange(pipePath: string, data: string): Promise<any[]> {
+	return new Promise((resolve, reject) => {
+		let received = '';
+		const socket = net.connect(pipePath, () => socket.write(data));
+		socket.on('data', chunk => received += chunk.toString('utf8'));
+		socket.on('error', reject);
+		socket.on('close', () => resolve(received.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))));
+	});
+}
+
+suite('Authentication', () => {
+	let api: SockpuppetAPI;
+
+	suiteSetup(async () => {
+		const extension = vscode.extensions.getExtension<SockpuppetAPI>('JoelSquire.vscode-sockpuppet');
+		assert.ok(extension, 'extension not found');
+		api = await extension.activate();
+	});
+
+	test('closes the connection after a wrong token, ignoring a retry with the right one', async () => {
+		const content = `sockpuppet authentication test ${Date.now()}`;
+		const messages = await exchange(api.getPipePath(), [
+			{ id: 1, method: 'auth', params: { token: 'wrong' } },
+			{ id: 2, method: 'auth', params: { token: api.getAuthToken() } },
+			{ id: 3, method: 'workspace.openTextDocument', params: { content } }
+		].map(message => JSON.stringify(message) + '\n').join(''));
+
+		assert.deepStrictEqual(messages.map(message => [message.id, message.code]), [[1, 'PermissionDenied']]);
+		// The request after the retry must not have run either
+		await new Promise(resolve => setTimeout(resolve, 200));
+		assert.ok(!vscode.workspace.textDocuments.some(document => document.getText() === content));
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { BatchCallResult, resolveBatchReferences } from '../batch';
+import { InvalidParamsError } from '../errors';
+
+suite('resolveBatchReferences', () => {
+	const results: BatchCallResult[] = [
+		{ result: { uri: 'file:///a.py', range: { start: { line: 1, character: 0 } } } },
+		{ error: 'Document not found', code: 'NotFound' },
+		{ result: null }
+	];
+
+	test('replaces a reference with a whole result', () => {
+		assert.deepStrictEqual(resolveBatchReferences({ $ref: '0' }, results, 'uri'), results[0].result);
+		assert.strictEqual(resolveBatchReferences({ $ref: '2' }, results, 'value'), null);
+	});
+
+	test('follows a property path into a result', () => {
+		assert.strictEqual(resolveBatchReferences({ $ref: '0.uri' }, results, 'uri'), 'file:///a.py');
+		assert.strictEqual(resolveBatchReferences({ $ref: '0.range.start.line' }, results, 'line'), 1);
+	});
+
+	test('resolves references nested in arrays and objects', () => {
+		const params = { uris: [{ $ref: '0.uri' }, 'file:///b.py'], position: { line: { $ref: '0.range.start.line' }, character: 4 } };
+		assert.deepStrictEqual(resolveBatchReferences(params, results, 'params'), {
+			uris: ['file:///a.py', 'file:///b.py'],
+			position: { line: 1, character: 4 }
+		});
+	});
+
+	test('leaves objects with keys besides $ref alone', () => {
+		const value = { $ref: '0', other: true };
+		assert.deepStrictEqual(resolveBatchReferences(value, results, 'value'), value);
+	});
+
+	test('rejects references to calls that have not run', () => {
+		assert.throws(
+			() => resolveBatchReferences({ uri: { $ref: '3.uri' } }, results, 'params'),
+			(error: InvalidParamsError) =>
+				error instanceof InvalidParamsError &&
+				error.message === "'params.uri' references call 3, which has not run yet" &&
+				(error.data as { field: string }).field === 'params.uri'
+		);
+		assert.throws(() => resolveBatchReferences({ $ref: 'first' }, results, 'uri'), /which has not run yet/);
+	});
+
+	test('rejects references to calls that failed', () => {
+		assert.throws(
+			() => resolveBatchReferences([{ $ref: '1' }], results, 'uris'),
+			(error: InvalidParamsError) => error.message === "'uris[0]' references call 1, which failed"
+		);
+	});
+
+	test('rejects paths the result does not have', () => {
+		assert.throws(() => resolveBatchReferences({ $ref: '0.missing' }, results, 'uri'), /references '0.missing', which the result does not have/);
+		assert.throws(() => resolveBatchReferences({ $ref: '0.uri.length.x' }, results, 'uri'), /which the result does not have/);
+		assert.throws(() => resolveBatchReferences({ $ref: '2.uri' }, results, 'uri'), /which the result does not have/);
+	});
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { decodeBytes, encodeBytes, readFileRange, writeFileRange } from '../binary';
+import { InvalidParamsError } from '../errors';
+
+const BYTES = Uint8Array.from([0, 1, 127, 128, 255]);
+
+suite('Byte encodings', () => {
+	test('encodes bytes as an array or base64', () => {
+		assert.deepStrictEqual(encodeBytes(BYTES, 'array'), [0, 1, 127, 128, 255]);
+		assert.strictEqual(encodeBytes(BYTES, 'base64'), 'AAF/gP8=');
+		// Only the view's bytes, not the rest of its buffer
+		assert.strictEqual(encodeBytes(BYTES.subarray(1, 3), 'base64'), 'AX8=');
+	});
+
+	test('decodes what it encodes', () => {
+		assert.deepStrictEqual(Array.from(decodeBytes(encodeBytes(BYTES, 'base64'), 'content')), Array.from(BYTES));
+		assert.deepStrictEqual(Array.from(decodeBytes(encodeBytes(BYTES, 'array'), 'content')), Array.from(BYTES));
+		assert.deepStrictEqual(Array.from(decodeBytes('AAF/\n gP8=', 'content')), Array.from(BYTES));
+		assert.strictEqual(decodeBytes('', 'content').length, 0);
+	});
+
+	test('rejects strings that are not base64', () => {
+		for (const content of ['AAF/gP8', 'AAF-gP8_', 'hello world!', '====', 'AA=A']) {
+			assert.throws(
+				() => decodeBytes(content, 'content'),
+				(error: InvalidParamsError) =>
+					error instanceof InvalidParamsError && error.message === "'content' is not valid base64",
+				content
+			);
+		}
+	});
+
+	test('rejects arrays holding anything but byte values', () => {
+		for (const content of [[1, 256], [1, -1], [1, 1.5], [1, '2']]) {
+			assert.throws(
+				() => decodeBytes(content as number[], 'content'),
+				(error: InvalidParamsError) =>
+					error.message === "'content[1]' must be a byte value (0-255)" &&
+					(error.data as { field: string }).field === 'content[1]'
+			);
+		}
+	});
+});
+
+suite('File ranges', () => {
+	let directory: string;
+	let uri: vscode.Uri;
+
+	setup(async () => {
+		directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sockpuppet-binary-'));
+		uri = vscode.Uri.file(path.join(directory, 'data.bin'));
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(directory, { recursive: true, force: true });
+	});
+
+	test('writes at an offset, creating the file and optionally truncating it', async () => {
+		assert.strictEqual(await writeFileRange(uri, Uint8Array.from([1, 2, 3, 4]), 0, false), 4);
+		assert.strictEqual(await writeFileRange(uri, Uint8Array.from([9]), 1, false), 4);
+		assert.deepStrictEqual(Array.from(await fs.promises.readFile(uri.fsPath)), [1, 9, 3, 4]);
+		assert.strictEqual(await writeFileRange(uri, Uint8Array.from([8]), 2, true), 3);
+		assert.deepStrictEqual(Array.from(await fs.promises.readFile(uri.fsPath)), [1, 9, 8]);
+	});
+
+	test('reads up to length bytes from an offset', async () => {
+		await fs.promises.writeFile(uri.fsPath, Buffer.from([1, 2, 3, 4, 5]));
+		const read = async (offset: number, length: number) => {
+			const { data, size } = await readFileRange(uri, offset, length);
+			return [Array.from(data), size];
+		};
+		assert.deepStrictEqual(await read(1, 2), [[2, 3], 5]);
+		assert.deepStrictEqual(await read(3, 10), [[4, 5], 5]);
+		assert.deepStrictEqual(await read(7, 2), [[], 5]);
+	});
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import { ClientConnection, EventQueueOptions, OverflowReport } from '../connection';
+
+/**
+ * Stand-in for a client socket, recording what is written to it.
+ * While blocked, writes report a full buffer until drain() is called.
+ */
+class FakeSocket extends EventEmitter {
+	destroyed = false;
+	writable = true;
+	blocked = false;
+	written: string[] = [];
+
+	write(text: string): boolean {
+		this.written.push(text);
+		return !this.blocked;
+	}
+
+	end(text: string): void {
+		this.written.push(text);
+		this.writable = false;
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+	}
+
+	drain(): void {
+		this.blocked = false;
+		this.emit('drain');
+	}
+
+	/**
+	 * Written newline-delimited messages, parsed
+	 */
+	messages(): any[] {
+		return this.written.map(text => JSON.parse(text));
+	}
+}
+
+function connect(eventQueue?: EventQueueOptions): { connection: ClientConnection; socket: FakeSocket } {
+	const socket = new FakeSocket();
+	return { connection: new ClientConnection(socket as unknown as net.Socket, 0, eventQueue), socket };
+}
+
+function contentLength(body: string): string {
+	return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+}
+
+suite('ClientConnection.receive', () => {
+	test('reads newline-delimited messages', () => {
+		const { connection } = connect();
+		assert.deepStrictEqual(connection.receive(Buffer.from('{"id":1}\n\n{"id":2}\n{"id"')), ['{"id":1}', '{"id":2}']);
+		assert.strictEqual(connection.framing, 'newline');
+		assert.deepStrictEqual(connection.receive(Buffer.from(':3}\n')), ['{"id":3}']);
+	});
+
+	test('detects Content-Length framing regardless of case', () => {
+		const { connection } = connect();
+		const body = '{"jsonrpc":"2.0","id":1,"method":"meta.ping"}';
+		assert.deepStrictEqual(connection.receive(Buffer.from(`content-LENGTH: ${body.length}\r\n\r\n${body}`)), [body]);
+		assert.strictEqual(connection.framing, 'content-length');
+	});
+
+	test('waits while the first bytes could still be a Content-Length header', () => {
+		const { connection } = connect();
+		const message = contentLength('{"id":1}');
+		assert.deepStrictEqual(connection.receive(Buffer.from(message.slice(0, 7))), []);
+		assert.strictEqual(connection.framing, undefined);
+		assert.deepStrictEqual(connection.receive(Buffer.from(message.slice(7))), ['{"id":1}']);
+		assert.strictEqual(connection.framing, 'content-length');
+	});
+
+	test('falls back to newlines once the first bytes rule out a header', () => {
+		const { connection } = connect();
+		assert.deepStrictEqual(connection.receive(Buffer.from('Conte')), []);
+		assert.deepStrictEqual(connection.receive(Buffer.from('nt\n')), ['Content']);
+		assert.strictEqual(connection.framing, 'newline');
+	});
+
+	test('reads Content-Length messages split across chunks', () => {
+		const { connection } = connect();
+		const body = '{"id":1,"params":{"text":"héllo"}}';
+		const data = Buffer.from(contentLength(body) + contentLength('{"id":2}'));
+		const messages: string[] = [];
+		// One byte at a time splits the header, the body and the multi-byte character
+		for (let index = 0; index < data.length; index++) {
+			messages.push(...connection.receive(data.subarray(index, index + 1)));
+		}
+		assert.deepStrictEqual(messages, [body, '{"id":2}']);
+	});
+
+	test('skips header blocks without a length', () => {
+		const { connection } = connect();
+		const data = contentLength('{"id":1}') + 'Content-Type: application/json\r\n\r\n' + contentLength('{"id":2}');
+		assert.deepStrictEqual(connection.receive(Buffer.from(data)), ['{"id":1}', '{"id":2}']);
+	});
+
+	test('frames replies the way the client framed its messages', () => {
+		const newline = connect();
+		newline.connection.receive(Buffer.from('{"id":1}\n'));
+		newline.connection.send({ id: 1, result: true });
+		assert.deepStrictEqual(newline.socket.written, ['{"id":1,"result":true}\n']);
+
+		const headers = connect();
+		headers.connection.receive(Buffer.from(contentLength('{"id":1}')));
+		headers.connection.send({ id: 1, result: true });
+		assert.deepStrictEqual(headers.socket.written, [contentLength('{"id":1,"result":true}')]);
+	});
+});
+
+suite('ClientConnection event queue', () => {
+	/**
+	 * Connect and back the socket up: the first event is written, everything after it is queued
+	 */
+	function backedUp(eventQueue: EventQueueOptions): { connection: ClientConnection; socket: FakeSocket } {
+		const client = connect(eventQueue);
+		client.socket.blocked = true;
+		client.connection.sendEvent('first', 0);
+		return client;
+	}
+
+	function eventNames(socket: FakeSocket): string[] {
+		return socket.messages().map(message => `${message.event}:${JSON.stringify(message.data)}`);
+	}
+
+	test('writes straight through while the socket keeps up', () => {
+		const { connection, socket } = connect({ limit: 1, overflowPolicy: 'disconnect' });
+		connection.sendEvent('a', 1);
+		connection.sendEvent('a', 2);
+		assert.deepStrictEqual(eventNames(socket), ['a:1', 'a:2']);
+	});
+
+	test('holds messages back until the socket drains', () => {
+		const { connection, socket } = backedUp({ limit: 0, overflowPolicy: 'dropOldest' });
+		connection.sendEvent('a', 1);
+		connection.send({ id: 1, result: true });
+		assert.strictEqual(socket.written.length, 1);
+		socket.drain();
+		assert.deepStrictEqual(socket.messages(), [
+			{ type: 'event', event: 'first', data: 0 },
+			{ type: 'event', event: 'a', data: 1 },
+			{ id: 1, result: true }
+		]);
+	});
+
+	test('dropOldest discards the oldest queued event and reports it after draining', () => {
+		const { connection, socket } = backedUp({ limit: 2, overflowPolicy: 'dropOldest' });
+		const reports: OverflowReport[] = [];
+		connection.onOverflow = report => reports.push(report);
+		connection.send({ id: 1, result: true });
+		connection.sendEvent('a', 1);
+		connection.sendEvent('b', 1);
+		connection.sendEvent('b', 2);
+		connection.sendEvent('b', 3);
+		socket.drain();
+
+		const report = { policy: 'dropOldest', dropped: 2, coalesced: 0, events: { a: 1, b: 1 } };
+		// Responses are never dropped
+		assert.deepStrictEqual(socket.messages().slice(1), [
+			{ id: 1, result: true },
+			{ type: 'event', event: 'b', data: 2 },
+			{ type: 'event', event: 'b', data: 3 },
+			{ type: 'event', event: 'events.overflow', data: report }
+		]);
+		assert.deepStrictEqual(reports, [report]);
+	});
+
+	test('coalesce replaces a queued event of the same name, else discards the oldest', () => {
+		const { connection, socket } = backedUp({ limit: 2, overflowPolicy: 'coalesce' });
+		connection.sendEvent('a', 1);
+		connection.sendEvent('b', 1);
+		connection.sendEvent('a', 2);
+		connection.sendEvent('c', 1);
+		socket.drain();
+
+		assert.deepStrictEqual(eventNames(socket), [
+			'first:0',
+			'a:2',
+			'c:1',
+			'events.overflow:{"policy":"coalesce","dropped":1,"coalesced":1,"events":{"a":1,"b":1}}'
+		]);
+	});
+
+	test('disconnect closes the connection with an overflow notice', () => {
+		const { connection, socket } = backedUp({ limit: 1, overflowPolicy: 'disconnect' });
+		connection.sendEvent('a', 1);
+		connection.sendEvent('b', 1);
+		connection.sendEvent('c', 1);
+
+		assert.strictEqual(socket.writable, false);
+		assert.deepStrictEqual(eventNames(socket), [
+			'first:0',
+			'events.overflow:{"policy":"disconnect","dropped":1,"coalesced":0,"events":{"b":1}}'
+		]);
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { EventLog } from '../events';
+import { StampedEvent } from '../subscriptions';
+
+function sequences(events: StampedEvent[]): number[] {
+	return events.map(event => event.sequence);
+}
+
+/**
+ * An event log holding the given number of events, numbered from 1
+ */
+function filledLog(capacity: number, count: number): EventLog {
+	const log = new EventLog(capacity);
+	for (let index = 0; index < count; index++) {
+		log.record('workspace.onDidSaveTextDocument', { index });
+	}
+	return log;
+}
+
+suite('EventLog', () => {
+	test('numbers events from 1', () => {
+		const log = new EventLog(3);
+		assert.strictEqual(log.sequence, 0);
+		const stamped = log.record('workspace.onDidSaveTextDocument', { uri: 'file:///a.py' });
+		assert.strictEqual(stamped.sequence, 1);
+		assert.strictEqual(log.record('workspace.onDidSaveTextDocument', null).sequence, 2);
+		assert.strictEqual(log.sequence, 2);
+	});
+
+	test('returns the events after a sequence number, oldest first', () => {
+		const log = filledLog(5, 4);
+		assert.strictEqual(log.since(0).gap, undefined);
+		assert.deepStrictEqual(sequences(log.since(0).events), [1, 2, 3, 4]);
+		assert.deepStrictEqual(sequences(log.since(2).events), [3, 4]);
+		assert.deepStrictEqual(log.since(4), { events: [] });
+	});
+
+	test('reports the events no longer buffered as a gap', () => {
+		const log = filledLog(3, 7);
+		assert.deepStrictEqual(sequences(log.since(1).events), [5, 6, 7]);
+		assert.deepStrictEqual(log.since(1).gap, { from: 2, to: 4 });
+		assert.deepStrictEqual(log.since(0).gap, { from: 1, to: 4 });
+		assert.strictEqual(log.since(4).gap, undefined);
+		assert.deepStrictEqual(sequences(log.since(5).events), [6, 7]);
+	});
+
+	test('replays everything buffered for a sequence number from before a restart', () => {
+		const log = filledLog(3, 5);
+		assert.deepStrictEqual(sequences(log.since(10).events), [3, 4, 5]);
+		assert.deepStrictEqual(log.since(10).gap, { from: 0, to: 2 });
+		// Even with nothing of this instance lost, the events of the earlier one are
+		assert.deepStrictEqual(filledLog(3, 2).since(10).gap, { from: 0, to: 0 });
+	});
+
+	test('treats a sequence number of another instance as from before a restart', () => {
+		const log = filledLog(5, 4);
+		assert.strictEqual(log.record('workspace.onDidSaveTextDocument', null).instanceId, log.instanceId);
+		assert.notStrictEqual(new EventLog(5).instanceId, log.instanceId);
+		// The counter passed the old sequence number, which must not be taken for one of this instance
+		assert.deepStrictEqual(sequences(log.since(2, 'earlier').events), [1, 2, 3, 4, 5]);
+		assert.deepStrictEqual(log.since(2, 'earlier').gap, { from: 0, to: 0 });
+		assert.strictEqual(log.since(2, log.instanceId).gap, undefined);
+		assert.deepStrictEqual(sequences(log.since(2, log.instanceId).events), [3, 4, 5]);
+	});
+
+	test('keeps no events with a capacity of 0', () => {
+		const log = filledLog(0, 2);
+		assert.strictEqual(log.sequence, 2);
+		assert.deepStrictEqual(log.since(0), { events: [], gap: { from: 1, to: 2 } });
+		assert.deepStrictEqual(log.since(2), { events: [] });
+	});
+
+	test('rounds its capacity down to a whole number of events, keeping none for negative ones', () => {
+		assert.strictEqual(new EventLog(1.5).capacity, 1);
+		assert.deepStrictEqual(sequences(filledLog(2.9, 3).since(0).events), [2, 3]);
+		assert.strictEqual(new EventLog(-3).capacity, 0);
+		assert.deepStrictEqual(filledLog(-3, 1).since(0), { events: [], gap: { from: 1, to: 1 } });
+	});
+});
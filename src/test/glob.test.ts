@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { InvalidParamsError } from '../errors';
+import { compileGlob, globToRegExp } from '../glob';
+
+function matches(pattern: string, path: string): boolean {
+	return globToRegExp(pattern).test(path);
+}
+
+suite('globToRegExp', () => {
+	test('matches whole paths', () => {
+		assert.ok(matches('/src/a.py', '/src/a.py'));
+		assert.ok(!matches('/src/a.py', '/src/a.pyc'));
+		assert.ok(!matches('a.py', '/src/a.py'));
+	});
+
+	test('* and ? stay within a path segment', () => {
+		assert.ok(matches('/src/*.py', '/src/a.py'));
+		assert.ok(!matches('/src/*.py', '/src/pkg/a.py'));
+		assert.ok(matches('/src/?.py', '/src/a.py'));
+		assert.ok(!matches('/src/?.py', '/src/ab.py'));
+		assert.ok(!matches('/src?a.py', '/src/a.py'));
+	});
+
+	test('** crosses path segments, **/ also matching no folder', () => {
+		assert.ok(matches('**/*.py', 'a.py'));
+		assert.ok(matches('**/*.py', '/src/pkg/a.py'));
+		assert.ok(matches('/src/**/a.py', '/src/a.py'));
+		assert.ok(matches('/src/**/a.py', '/src/pkg/sub/a.py'));
+		assert.ok(matches('/src/**', '/src/pkg/a.py'));
+		assert.ok(!matches('/src/**/a.py', '/lib/a.py'));
+	});
+
+	test('{a,b} matches either alternative', () => {
+		assert.ok(matches('**/*.{py,pyi}', '/src/a.pyi'));
+		assert.ok(matches('**/*.{py,pyi}', '/src/a.py'));
+		assert.ok(!matches('**/*.{py,pyi}', '/src/a.js'));
+		assert.ok(matches('/src/a,b}', '/src/a,b}'));
+	});
+
+	test('[abc] and [!abc] match character classes', () => {
+		assert.ok(matches('/src/[ab].py', '/src/b.py'));
+		assert.ok(!matches('/src/[ab].py', '/src/c.py'));
+		assert.ok(matches('/src/[!ab].py', '/src/c.py'));
+		assert.ok(!matches('/src/[!ab].py', '/src/a.py'));
+		assert.ok(matches('/src/[a.py', '/src/[a.py'));
+	});
+
+	test('escapes regular expression characters', () => {
+		assert.ok(matches('/src/a+b.(py)', '/src/a+b.(py)'));
+		assert.ok(!matches('/src/a.py', '/src/axpy'));
+		assert.ok(matches('/src/^$|.py', '/src/^$|.py'));
+	});
+});
+
+suite('compileGlob', () => {
+	test('compiles valid patterns', () => {
+		assert.ok(compileGlob('**/*.py', 'filter.uri').test('/src/a.py'));
+	});
+
+	test('rejects patterns that do not compile with InvalidParams', () => {
+		assert.throws(
+			() => compileGlob('**/*.{py', 'filter.uri'),
+			(error: InvalidParamsError) =>
+				error instanceof InvalidParamsError &&
+				error.message.startsWith("'filter.uri' is not a valid glob pattern: ") &&
+				(error.data as { field: string }).field === 'filter.uri'
+		);
+		assert.throws(() => compileGlob('/src/[z-a].py', 'filter.uri'), InvalidParamsError);
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { invalidJsonRpcRequest, isJsonRpcMessage, JsonRpcErrorCodes, toJsonRpcNotification, toJsonRpcResponse } from '../jsonrpc';
+
+suite('JSON-RPC', () => {
+	test('recognizes JSON-RPC 2.0 messages', () => {
+		assert.ok(isJsonRpcMessage({ jsonrpc: '2.0', method: 'auth' }));
+		assert.ok(!isJsonRpcMessage({ jsonrpc: '1.0', method: 'auth' }));
+		assert.ok(!isJsonRpcMessage({ id: 1, method: 'auth' }));
+		assert.ok(!isJsonRpcMessage(null));
+	});
+
+	test('accepts well-formed requests and notifications', () => {
+		assert.strictEqual(invalidJsonRpcRequest({ jsonrpc: '2.0', id: 1, method: 'meta.listMethods' }), undefined);
+		assert.strictEqual(invalidJsonRpcRequest({ jsonrpc: '2.0', id: 'a', method: 'meta.describe', params: { method: 'auth' } }), undefined);
+		assert.strictEqual(invalidJsonRpcRequest({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } }), undefined);
+	});
+
+	test('rejects malformed envelopes', () => {
+		assert.match(invalidJsonRpcRequest({ id: 1, method: 'auth' })!, /expected an object with jsonrpc "2.0"/);
+		assert.match(invalidJsonRpcRequest({ jsonrpc: '2.0', id: 1, method: 7 })!, /method must be a string/);
+		assert.match(invalidJsonRpcRequest({ jsonrpc: '2.0', id: {}, method: 'auth' })!, /id must be a string, a number or null/);
+		assert.match(invalidJsonRpcRequest({ jsonrpc: '2.0', id: 1, method: 'auth', params: 'token' })!, /params must be an object/);
+		assert.match(invalidJsonRpcRequest({ jsonrpc: '2.0', id: 1, method: 'auth', params: null })!, /params must be an object/);
+	});
+
+	test('converts results, turning undefined into null', () => {
+		assert.deepStrictEqual(toJsonRpcResponse({ id: 1, result: { success: true } }), { jsonrpc: '2.0', id: 1, result: { success: true } });
+		assert.deepStrictEqual(toJsonRpcResponse({ id: 2, result: undefined }), { jsonrpc: '2.0', id: 2, result: null });
+		assert.deepStrictEqual(toJsonRpcResponse({ result: 0 }), { jsonrpc: '2.0', id: null, result: 0 });
+	});
+
+	test('converts errors, keeping the native code, method and data in error.data', () => {
+		const response = { id: 3, error: 'Document not found', code: 'NotFound', method: 'document.getText', data: { uri: 'file:///a.py' } };
+		assert.deepStrictEqual(toJsonRpcResponse(response), {
+			jsonrpc: '2.0',
+			id: 3,
+			error: {
+				code: JsonRpcErrorCodes.NotFound,
+				message: 'Document not found',
+				data: { uri: 'file:///a.py', code: 'NotFound', method: 'document.getText' }
+			}
+		});
+	});
+
+	test('maps native error codes, unless given an override', () => {
+		const code = (response: any, override?: number) => toJsonRpcResponse(response, override).error.code;
+		assert.strictEqual(code({ id: 1, error: 'Bad', code: 'InvalidParams' }), -32602);
+		assert.strictEqual(code({ id: 1, error: 'Cancelled', code: 'Cancelled' }), -32800);
+		assert.strictEqual(code({ id: 1, error: 'Boom', code: 'Internal' }), -32603);
+		assert.strictEqual(code({ id: 1, error: 'Boom', code: 'Unheard' }), -32603);
+		assert.strictEqual(code({ id: 1, error: 'Unknown method', code: 'NotFound' }, JsonRpcErrorCodes.MethodNotFound), -32601);
+	});
+
+	test('sends events as notifications, without params when there is no payload', () => {
+		assert.deepStrictEqual(
+			toJsonRpcNotification('workspace.onDidSaveTextDocument', { uri: 'file:///a.py' }),
+			{ jsonrpc: '2.0', method: 'workspace.onDidSaveTextDocument', params: { uri: 'file:///a.py' } }
+		);
+		assert.deepStrictEqual(
+			toJsonRpcNotification('window.onDidChangeActiveTextEditor', null),
+			{ jsonrpc: '2.0', method: 'window.onDidChangeActiveTextEditor' }
+		);
+	});
+});
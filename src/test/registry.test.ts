@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import { InvalidParamsError } from '../errors';
+import { MethodRegistry, ParamSchema, validateParams } from '../registry';
+
+/**
+ * Run validateParams and return the field named by the InvalidParamsError it throws
+ */
+function invalidField(schemas: { [name: string]: ParamSchema }, params: unknown): string {
+	try {
+		validateParams('test.method', schemas, params);
+	} catch (error) {
+		assert.ok(error instanceof InvalidParamsError, `unexpected error: ${error}`);
+		return (error.data as { field: string }).field;
+	}
+	assert.fail('params were accepted');
+}
+
+suite('MethodRegistry', () => {
+	let registry: MethodRegistry;
+
+	setup(() => {
+		registry = new MethodRegistry();
+		for (const name of ['window.showInformationMessage', 'window.showErrorMessage', 'workspace.openTextDocument', 'document.getText']) {
+			registry.register(name, { description: name }, () => undefined);
+		}
+	});
+
+	test('refuses to register a method twice', () => {
+		assert.throws(() => registry.register('document.getText', { description: 'again' }, () => undefined), /already registered/);
+	});
+
+	test('lists methods sorted, optionally by namespace', () => {
+		assert.deepStrictEqual(registry.list('window'), ['window.showErrorMessage', 'window.showInformationMessage']);
+		assert.deepStrictEqual(registry.list('win'), []);
+		assert.strictEqual(registry.list()[0], 'document.getText');
+	});
+
+	test('describes methods without their handler, filling in defaults', () => {
+		registry.register('workspace.saveAll', {
+			description: 'Save all dirty documents',
+			params: { includeUntitled: { type: 'boolean' } },
+			tier: 'edit',
+			sequential: true
+		}, () => true);
+
+		assert.deepStrictEqual(registry.describe('document.getText'), {
+			name: 'document.getText',
+			description: 'document.getText',
+			tier: 'read',
+			sequential: false
+		});
+		assert.deepStrictEqual(registry.describe('workspace.saveAll'), {
+			name: 'workspace.saveAll',
+			description: 'Save all dirty documents',
+			params: { includeUntitled: { type: 'boolean' } },
+			tier: 'edit',
+			sequential: true
+		});
+		assert.strictEqual(registry.describe('workspace.nope'), undefined);
+	});
+
+	test('suggests the intended method for abbreviations and typos', () => {
+		assert.strictEqual(registry.suggest('window.showInfoMessage'), 'window.showInformationMessage');
+		assert.strictEqual(registry.suggest('window.showErorMessage'), 'window.showErrorMessage');
+		assert.strictEqual(registry.suggest('Document.GetText'), 'document.getText');
+		assert.strictEqual(registry.suggest('workspace.openTextDocuments'), 'workspace.openTextDocument');
+	});
+
+	test('suggests nothing for names unlike any method', () => {
+		assert.strictEqual(registry.suggest('terminal.sendText'), undefined);
+		assert.strictEqual(registry.suggest('x'), undefined);
+	});
+});
+
+suite('validateParams', () => {
+	test('accepts params matching the schema', () => {
+		validateParams('test.method', {
+			uri: { type: 'uri', required: true },
+			line: { type: 'integer', minimum: 0 },
+			range: { type: 'range' },
+			mode: { type: 'string', enum: ['a', 'b'] }
+		}, {
+			uri: 'file:///a.py',
+			line: 0,
+			range: { start: { line: 0, character: 0 }, end: { line: 1, character: 2 } },
+			mode: 'b'
+		});
+	});
+
+	test('rejects params that are not an object', () => {
+		assert.strictEqual(invalidField({}, [1, 2]), 'params');
+	});
+
+	test('reports missing required fields, treating null as missing', () => {
+		const schemas: { [name: string]: ParamSchema } = { uri: { type: 'uri', required: true } };
+		assert.strictEqual(invalidField(schemas, {}), 'uri');
+		assert.strictEqual(invalidField(schemas, { uri: null }), 'uri');
+	});
+
+	test('ignores missing optional fields and unknown properties', () => {
+		validateParams('test.method', { line: { type: 'integer' } }, { line: null, extra: true });
+	});
+
+	test('checks types, accepting any of several', () => {
+		const schemas: { [name: string]: ParamSchema } = { value: { type: ['string', 'integer'] } };
+		validateParams('test.method', schemas, { value: 'a' });
+		validateParams('test.method', schemas, { value: 3 });
+		assert.strictEqual(invalidField(schemas, { value: 1.5 }), 'value');
+		assert.strictEqual(invalidField({ uri: { type: 'uri' } }, { uri: '' }), 'uri');
+	});
+
+	test('checks enums, optionally ignoring case', () => {
+		assert.strictEqual(invalidField({ mode: { type: 'string', enum: ['a'] } }, { mode: 'A' }), 'mode');
+		validateParams('test.method', { mode: { type: 'string', enum: ['a'], ignoreCase: true } }, { mode: 'A' });
+	});
+
+	test('checks minimums', () => {
+		const schemas: { [name: string]: ParamSchema } = { offset: { type: 'integer', minimum: 0 } };
+		assert.strictEqual(invalidField(schemas, { offset: -1 }), 'offset');
+		assert.throws(() => validateParams('test.method', schemas, { offset: -1 }), /'offset' must not be negative/);
+		assert.throws(
+			() => validateParams('test.method', { count: { type: 'number', minimum: 2 } }, { count: 1 }),
+			/'count' must be at least 2/
+		);
+	});
+
+	test('requires non-negative integer coordinates in positions and ranges', () => {
+		assert.strictEqual(invalidField({ position: { type: 'position' } }, { position: { line: -1, character: 0 } }), 'position.line');
+		assert.strictEqual(
+			invalidField({ range: { type: 'range' } }, { range: { start: { line: 0, character: 0 }, end: { line: 0 } } }),
+			'range.end.character'
+		);
+	});
+
+	test('names nested fields in array items and object properties', () => {
+		const schemas: { [name: string]: ParamSchema } = {
+			edits: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: { range: { type: 'range', required: true }, text: { type: 'string' } }
+				}
+			}
+		};
+		const edit = { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }, text: 'x' };
+		assert.strictEqual(invalidField(schemas, { edits: [edit, { ...edit, text: 1 }] }), 'edits[1].text');
+		assert.strictEqual(invalidField(schemas, { edits: [{ text: 'x' }] }), 'edits[0].range');
+	});
+
+	test('includes the method and the received type in the error', () => {
+		assert.throws(
+			() => validateParams('document.lineAt', { line: { type: 'integer' } }, { line: 'one' }),
+			(error: InvalidParamsError) =>
+				error.message === "Invalid params for document.lineAt: 'line' must be an integer" &&
+				(error.data as { received: string }).received === 'string'
+		);
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { InvalidParamsError } from '../errors';
+import { reviveValue, serializeValue } from '../serialization';
+
+const range = { $type: 'Range', start: { $type: 'Position', line: 1, character: 2 }, end: { $type: 'Position', line: 3, character: 4 } };
+
+/**
+ * Revive a tagged value and serialize it again, which must give back the same JSON
+ */
+function roundTrip(value: any): any {
+	return serializeValue(reviveValue(value, 'value'));
+}
+
+suite('Tagged values', () => {
+	test('serializes VS Code objects as tagged objects', () => {
+		assert.deepStrictEqual(serializeValue(vscode.Uri.parse('file:///a.py')), { $type: 'Uri', value: 'file:///a.py' });
+		assert.deepStrictEqual(serializeValue(new vscode.Range(1, 2, 3, 4)), range);
+		assert.deepStrictEqual(serializeValue(new vscode.Selection(3, 4, 1, 2)), {
+			$type: 'Selection',
+			anchor: { $type: 'Position', line: 3, character: 4 },
+			active: { $type: 'Position', line: 1, character: 2 }
+		});
+	});
+
+	test('serializes tagged values nested in plain objects and arrays', () => {
+		assert.deepStrictEqual(serializeValue({ ranges: [new vscode.Range(1, 2, 3, 4)], count: 1, none: null }), {
+			ranges: [range],
+			count: 1,
+			none: null
+		});
+	});
+
+	test('revives tagged values into VS Code objects', () => {
+		const uri = reviveValue({ $type: 'Uri', value: 'file:///a.py' }, 'uri');
+		assert.ok(uri instanceof vscode.Uri);
+		assert.strictEqual(uri.toString(), 'file:///a.py');
+		const revived = reviveValue(range, 'range');
+		assert.ok(revived instanceof vscode.Range);
+		assert.ok(revived.start instanceof vscode.Position);
+		assert.deepStrictEqual([revived.start.line, revived.start.character, revived.end.line, revived.end.character], [1, 2, 3, 4]);
+	});
+
+	test('round-trips Uri, Position, Range and WorkspaceEdit', () => {
+		const edit = {
+			$type: 'WorkspaceEdit',
+			entries: [
+				{ uri: { $type: 'Uri', value: 'file:///a.py' }, edits: [{ $type: 'TextEdit', range, newText: 'x' }] }
+			]
+		};
+		for (const value of [{ $type: 'Uri', value: 'file:///a.py' }, range.start, range, edit]) {
+			assert.deepStrictEqual(roundTrip(value), value);
+		}
+	});
+
+	test('accepts plain positions, ranges and URI strings inside tagged values', () => {
+		const location = reviveValue({
+			$type: 'Location',
+			uri: 'file:///a.py',
+			range: { start: { line: 1, character: 2 }, end: { line: 3, character: 4 } }
+		}, 'location');
+		assert.deepStrictEqual(serializeValue(location), { $type: 'Location', uri: { $type: 'Uri', value: 'file:///a.py' }, range });
+	});
+
+	test('keeps untagged values as they are', () => {
+		assert.deepStrictEqual(reviveValue({ line: 1, items: ['a', 2, null] }, 'value'), { line: 1, items: ['a', 2, null] });
+	});
+
+	test('rejects unknown types and tagged values missing fields', () => {
+		const invalid = (value: any, field: string) => assert.throws(
+			() => reviveValue(value, 'args'),
+			(error: InvalidParamsError) => error instanceof InvalidParamsError && (error.data as { field: string }).field === field
+		);
+		invalid([{ $type: 'Vector' }], 'args[0]');
+		invalid({ $type: 'Range', start: { line: 0, character: 0 } }, 'args.end');
+		invalid({ $type: 'Position', line: 0, character: 'one' }, 'args.character');
+		invalid({ edit: { $type: 'WorkspaceEdit', entries: [{ edits: [] }] } }, 'args.edit.entries[0].uri');
+	});
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import * as vscode from 'vscode';
+import { StampedEvent, SubscriptionSet } from '../subscriptions';
+
+let sequence = 0;
+
+function stamp(event: string, data: any, uri?: string): StampedEvent {
+	return {
+		sequence: ++sequence,
+		instanceId: 'test',
+		timestamp: Date.now(),
+		event,
+		data,
+		subject: uri ? { uri: vscode.Uri.parse(uri) } : undefined
+	};
+}
+
+/**
+ * A subscription set recording what it delivers
+ */
+function recordingSet(): { subscriptions: SubscriptionSet; delivered: Array<{ event: StampedEvent; subscriptionId: string }> } {
+	const delivered: Array<{ event: StampedEvent; subscriptionId: string }> = [];
+	const subscriptions = new SubscriptionSet((event, subscriptionId) => delivered.push({ event, subscriptionId }));
+	return { subscriptions, delivered };
+}
+
+suite('SubscriptionSet', () => {
+	let subscriptions: SubscriptionSet;
+	let delivered: Array<{ event: StampedEvent; subscriptionId: string }>;
+	let clock: FakeTimers.Clock;
+
+	setup(() => {
+		clock = FakeTimers.install({ now: Date.now(), toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+		({ subscriptions, delivered } = recordingSet());
+	});
+
+	teardown(() => {
+		subscriptions.clear();
+		clock.uninstall();
+	});
+
+	test('delivers events right away without timing options', () => {
+		const { id } = subscriptions.add('workspace.onDidSaveTextDocument');
+		subscriptions.dispatch(stamp('workspace.onDidSaveTextDocument', 1));
+		subscriptions.dispatch(stamp('workspace.onDidOpenTextDocument', 2));
+		assert.deepStrictEqual(delivered.map(delivery => [delivery.event.data, delivery.subscriptionId]), [[1, id]]);
+	});
+
+	test('reuses a subscription with the same filter and options', () => {
+		const first = subscriptions.add('window.onDidChangeActiveTextEditor', undefined, { debounce: 10 });
+		assert.strictEqual(subscriptions.add('window.onDidChangeActiveTextEditor', undefined, { debounce: 10 }).id, first.id);
+		assert.notStrictEqual(subscriptions.add('window.onDidChangeActiveTextEditor').id, first.id);
+	});
+
+	test('debounce holds events until none has fired for the interval', () => {
+		subscriptions.add('workspace.onDidChangeTextDocument', undefined, { debounce: 80 });
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', 1, 'file:///a.py'));
+		clock.tick(40);
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', 2, 'file:///a.py'));
+		clock.tick(79);
+		// Past the first event's debounce, but the second one pushed the delivery back
+		assert.strictEqual(delivered.length, 0);
+		clock.tick(1);
+		assert.deepStrictEqual(delivered.map(delivery => delivery.event.data), [1, 2]);
+	});
+
+	test('throttle caps how long a debounce can hold events', () => {
+		subscriptions.add('workspace.onDidChangeTextDocument', undefined, { debounce: 1000, throttle: 40 });
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', 1));
+		clock.tick(20);
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', 2));
+		clock.tick(19);
+		assert.strictEqual(delivered.length, 0);
+		clock.tick(1);
+		assert.deepStrictEqual(delivered.map(delivery => delivery.event.data), [1, 2]);
+	});
+
+	test('throttle alone sends the first event right away and holds the rest', () => {
+		subscriptions.add('window.onDidChangeTextEditorSelection', undefined, { throttle: 100 });
+		subscriptions.dispatch(stamp('window.onDidChangeTextEditorSelection', 1));
+		assert.strictEqual(delivered.length, 1);
+		clock.tick(30);
+		subscriptions.dispatch(stamp('window.onDidChangeTextEditorSelection', 2));
+		subscriptions.dispatch(stamp('window.onDidChangeTextEditorSelection', 3));
+		clock.tick(69);
+		assert.strictEqual(delivered.length, 1);
+		clock.tick(1);
+		assert.deepStrictEqual(delivered.map(delivery => delivery.event.data), [1, 2, 3]);
+	});
+
+	test('coalesce merges held events of the same name about the same document', () => {
+		subscriptions.add('workspace.*', undefined, { debounce: 20, coalesce: true });
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', { version: 2, contentChanges: ['a'] }, 'file:///a.py'));
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', { version: 2, contentChanges: ['x'] }, 'file:///b.py'));
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', { version: 3, contentChanges: ['b'] }, 'file:///a.py'));
+		subscriptions.dispatch(stamp('workspace.onDidSaveTextDocument', { version: 3 }, 'file:///a.py'));
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', { version: 4, contentChanges: ['c'] }, 'file:///a.py'));
+		clock.tick(20);
+
+		assert.deepStrictEqual(delivered.map(delivery => [delivery.event.event, delivery.event.data]), [
+			['workspace.onDidChangeTextDocument', { version: 2, contentChanges: ['x'] }],
+			['workspace.onDidSaveTextDocument', { version: 3 }],
+			['workspace.onDidChangeTextDocument', { version: 4, contentChanges: ['a', 'b', 'c'] }]
+		]);
+		// The merged event takes the sequence number and the place of the latest one
+		assert.deepStrictEqual(delivered.map(delivery => delivery.event.sequence), [sequence - 3, sequence - 1, sequence]);
+	});
+
+	test('removing a subscription discards the events it holds', () => {
+		const { id } = subscriptions.add('workspace.onDidChangeTextDocument', undefined, { debounce: 20 });
+		subscriptions.dispatch(stamp('workspace.onDidChangeTextDocument', 1));
+		assert.ok(subscriptions.remove(id));
+		clock.tick(40);
+		assert.strictEqual(delivered.length, 0);
+	});
+
+	test('replay delivers matching past events regardless of timing options', () => {
+		const { id } = subscriptions.add('workspace.*', undefined, { debounce: 1000 });
+		const events = [stamp('workspace.onDidSaveTextDocument', 1), stamp('window.onDidChangeActiveTextEditor', 2)];
+		assert.strictEqual(subscriptions.replay(id, events), 1);
+		assert.deepStrictEqual(delivered.map(delivery => delivery.event.data), [1]);
+		assert.strictEqual(subscriptions.replay('sub-unknown', events), 0);
+	});
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { VersionConflictError } from '../errors';
+import { EditTransaction } from '../transactions';
+
+type EditOptions = { undoStopBefore: boolean; undoStopAfter: boolean };
+
+/**
+ * Stand-in for a text editor on a plain string, recording the edits made through it
+ */
+class FakeEditor {
+	selections: readonly vscode.Selection[] = [new vscode.Selection(0, 1, 0, 1)];
+	edits: Array<{ replacements: Array<{ range: vscode.Range; text: string }>; options?: EditOptions }> = [];
+	readonly document = {
+		uri: vscode.Uri.parse('file:///test.txt'),
+		version: 1,
+		text: '',
+		getText: () => this.document.text,
+		positionAt: (offset: number) => {
+			const lines = this.document.text.slice(0, offset).split('\n');
+			return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+		},
+		offsetAt: (position: vscode.Position) => {
+			const lines = this.document.text.split('\n').slice(0, position.line);
+			return lines.reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+		}
+	};
+
+	constructor(text: string) {
+		this.document.text = text;
+	}
+
+	edit(callback: (builder: { replace(range: vscode.Range, text: string): void }) => void, options?: EditOptions): Thenable<boolean> {
+		const replacements: Array<{ range: vscode.Range; text: string }> = [];
+		callback({ replace: (range, text) => replacements.push({ range, text }) });
+		for (const { range, text } of replacements) {
+			const { document } = this;
+			document.text = document.text.slice(0, document.offsetAt(range.start)) + text + document.text.slice(document.offsetAt(range.end));
+		}
+		if (replacements.length > 0) {
+			this.document.version++;
+		}
+		this.edits.push({ replacements, options });
+		return Promise.resolve(true);
+	}
+
+	replace(start: number, end: number, text: string, options?: EditOptions): Thenable<boolean> {
+		const range = new vscode.Range(this.document.positionAt(start), this.document.positionAt(end));
+		return this.edit(builder => builder.replace(range, text), options);
+	}
+}
+
+function begin(editor: FakeEditor): EditTransaction {
+	return new EditTransaction('tx-1', editor as unknown as vscode.TextEditor);
+}
+
+suite('EditTransaction', () => {
+	test('merges its edits into a single undo step', async () => {
+		const editor = new FakeEditor('hello world');
+		const transaction = begin(editor);
+		await transaction.apply(options => editor.replace(0, 5, 'howdy', options));
+		await transaction.apply(options => editor.replace(6, 11, 'there', options));
+		assert.ok(await transaction.commit());
+
+		assert.strictEqual(editor.document.text, 'howdy there');
+		assert.deepStrictEqual(editor.edits.map(edit => edit.options), [
+			{ undoStopBefore: true, undoStopAfter: false },
+			{ undoStopBefore: false, undoStopAfter: false },
+			{ undoStopBefore: false, undoStopAfter: true }
+		]);
+	});
+
+	test('commits without editing when nothing was applied', async () => {
+		const editor = new FakeEditor('hello');
+		assert.ok(await begin(editor).commit());
+		assert.strictEqual(editor.edits.length, 0);
+	});
+
+	test('rolls back to the original text and selections, replacing only what differs', async () => {
+		const editor = new FakeEditor('line one\nline two\nline three');
+		const selections = editor.selections;
+		const transaction = begin(editor);
+		await transaction.apply(options => editor.replace(9, 13, 'LINE', options));
+		editor.selections = [new vscode.Selection(2, 0, 2, 4)];
+		await transaction.apply(options => editor.replace(14, 17, '2', options));
+		assert.strictEqual(editor.document.text, 'line one\nLINE 2\nline three');
+
+		assert.ok(await transaction.rollback());
+		assert.strictEqual(editor.document.text, 'line one\nline two\nline three');
+		assert.strictEqual(editor.selections, selections);
+		const restore = editor.edits[editor.edits.length - 1];
+		assert.deepStrictEqual(restore.options, { undoStopBefore: false, undoStopAfter: true });
+		assert.deepStrictEqual(restore.replacements.map(({ range, text }) => [range.start.line, range.start.character, range.end.character, text]), [
+			[1, 0, 6, 'line two']
+		]);
+	});
+
+	test('refuses to roll back over changes made outside the transaction', async () => {
+		const editor = new FakeEditor('hello');
+		const transaction = begin(editor);
+		await transaction.apply(options => editor.replace(0, 1, 'j', options));
+		await editor.replace(5, 5, '!');
+
+		await assert.rejects(transaction.rollback(), (error: VersionConflictError) =>
+			error instanceof VersionConflictError && (error.data as { actualVersion: number }).actualVersion === 3
+		);
+		assert.strictEqual(editor.document.text, 'jello!');
+	});
+});
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+
+export const DOCUMENT_DELTA_EVENT = 'document.delta';
+export const DOCUMENT_RESYNC_EVENT = 'document.resync';
+export const DOCUMENT_UNTRACKED_EVENT = 'document.untracked';
+
+/**
+ * Full content of a tracked document, the starting point of a client-side mirror
+ */
+export interface DocumentSnapshot {
+    uri: string;
+    version: number;
+    languageId: string;
+    eol: string;
+    text: string;
+}
+
+export interface ContentChange {
+    range: { start: { line: number; character: number }; end: { line: number; character: number } };
+    rangeOffset: number;
+    rangeLength: number;
+    text: string;
+}
+
+/**
+ * Changes turning version fromVersion of a tracked document into version
+ */
+export interface DocumentDelta {
+    uri: string;
+    fromVersion: number;
+    version: number;
+    /** Applied one after the other, offsets refer to the text after the previous change */
+    changes: ContentChange[];
+}
+
+export function serializeContentChange(change: vscode.TextDocumentContentChangeEvent): ContentChange {
+    return {
+        range: {
+            start: { line: change.range.start.line, character: change.range.start.character },
+            end: { line: change.range.end.line, character: change.range.end.character }
+        },
+        rangeOffset: change.rangeOffset,
+        rangeLength: change.rangeLength,
+        text: change.text
+    };
+}
+
+export function documentSnapshot(document: vscode.TextDocument): DocumentSnapshot {
+    return {
+        uri: document.uri.toString(),
+        version: document.version,
+        languageId: document.languageId,
+        eol: document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n',
+        text: document.getText()
+    };
+}
+
+/**
+ * Documents a client mirrors, with the last version it was sent of each
+ */
+export class TrackedDocuments {
+    private versions: Map<string, number> = new Map();
+
+    /**
+     * Start (or restart) tracking a document
+     *
+     * @returns The snapshot to send to the client, later deltas build on its version
+     */
+    track(document: vscode.TextDocument): DocumentSnapshot {
+        const snapshot = documentSnapshot(document);
+        this.versions.set(snapshot.uri, snapshot.version);
+        return snapshot;
+    }
+
+    /**
+     * @returns True if the document was tracked
+     */
+    untrack(uri: string): boolean {
+        return this.versions.delete(uri);
+    }
+
+    uris(): string[] {
+        return Array.from(this.versions.keys());
+    }
+
+    /**
+     * The delta to send for a document change, undefined if the document is not
+     * tracked or its text did not change (e.g. only its dirty state did)
+     */
+    delta(event: vscode.TextDocumentChangeEvent): DocumentDelta | undefined {
+        const uri = event.document.uri.toString();
+        const fromVersion = this.versions.get(uri);
+        if (fromVersion === undefined || event.contentChanges.length === 0) {
+            return undefined;
+        }
+        this.versions.set(uri, event.document.version);
+        return {
+            uri,
+            fromVersion,
+            version: event.document.version,
+            changes: event.contentChanges.map(serializeContentChange)
+        };
+    }
+}
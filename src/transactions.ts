@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { VersionConflictError } from './errors';
+
+/**
+ * Edits, snippets and selection changes made to one editor that form a single
+ * undo step. The text and selections at the start are kept to roll back to.
+ */
+export class EditTransaction {
+    /** Document version after the transaction's last edit */
+    private version: number;
+    private edited = false;
+    private readonly text: string;
+    private readonly selections: readonly vscode.Selection[];
+
+    constructor(readonly id: string, readonly editor: vscode.TextEditor) {
+        this.version = editor.document.version;
+        this.text = editor.document.getText();
+        this.selections = editor.selections;
+    }
+
+    /**
+     * Fail if the document was changed by anything but this transaction
+     */
+    checkVersion(): void {
+        const document = this.editor.document;
+        if (document.version !== this.version) {
+            throw new VersionConflictError(document.uri.toString(), this.version, document.version);
+        }
+    }
+
+    /**
+     * Apply an edit as part of the transaction: only the first one starts a new
+     * undo step, the ones after it are merged into it
+     */
+    async apply(edit: (options: { undoStopBefore: boolean; undoStopAfter: boolean }) => Thenable<boolean>): Promise<boolean> {
+        this.checkVersion();
+        const applied = await edit({ undoStopBefore: !this.edited, undoStopAfter: false });
+        if (applied) {
+            this.edited = true;
+        }
+        this.version = this.editor.document.version;
+        return applied;
+    }
+
+    /**
+     * Close the undo step, so later edits are undone separately
+     */
+    async commit(): Promise<boolean> {
+        if (!this.edited) {
+            return true;
+        }
+        return this.editor.edit(() => undefined, { undoStopBefore: false, undoStopAfter: true });
+    }
+
+    /**
+     * Restore the text and selections from the start of the transaction. The
+     * restoring edit joins the transaction's undo step, which then changes nothing.
+     *
+     * @throws VersionConflictError if the document was changed outside the transaction
+     */
+    async rollback(): Promise<boolean> {
+        let restored = true;
+        if (this.edited) {
+            this.checkVersion();
+            const document = this.editor.document;
+            const current = document.getText();
+
+            // Only replace what differs, keeping markers and folding outside of it intact
+            let prefix = 0;
+            const shorter = Math.min(current.length, this.text.length);
+            while (prefix < shorter && current[prefix] === this.text[prefix]) {
+                prefix++;
+            }
+            let suffix = 0;
+            while (
+                suffix < shorter - prefix &&
+                current[current.length - 1 - suffix] === this.text[this.text.length - 1 - suffix]
+            ) {
+                suffix++;
+            }
+            const range = new vscode.Range(document.positionAt(prefix), document.positionAt(current.length - suffix));
+            const original = this.text.substring(prefix, this.text.length - suffix);
+            restored = await this.editor.edit(
+                builder => builder.replace(range, original),
+                { undoStopBefore: false, undoStopAfter: true }
+            );
+        }
+        this.editor.selections = this.selections;
+        return restored;
+    }
+}